@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SubmissionStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'WITHDRAWN');
+
+-- CreateTable
+CREATE TABLE "submissions" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "abstract" TEXT,
+    "status" "SubmissionStatus" NOT NULL DEFAULT 'DRAFT',
+    "submitted_at" TIMESTAMP(3),
+    "withdrawn_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "submissions_activity_id_status_idx" ON "submissions"("activity_id", "status");
+
+-- CreateIndex
+CREATE INDEX "submissions_member_id_idx" ON "submissions"("member_id");
+
+-- AddForeignKey
+ALTER TABLE "submissions" ADD CONSTRAINT "submissions_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submissions" ADD CONSTRAINT "submissions_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "submission_contents" (
+    "id" UUID NOT NULL,
+    "submission_id" UUID NOT NULL,
+    "lang" VARCHAR(15) NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "abstract" TEXT,
+
+    CONSTRAINT "submission_contents_pkey" PRIMARY KEY ("id")
+);
+
+-- Move existing single-language content into the activity's first supported language
+INSERT INTO "submission_contents" ("id", "submission_id", "lang", "title", "abstract")
+SELECT gen_random_uuid(), s."id", a."supported_languages"[1], s."title", s."abstract"
+FROM "submissions" s
+JOIN "activities" a ON a."id" = s."activity_id";
+
+-- AlterTable
+ALTER TABLE "submissions" DROP COLUMN "abstract",
+DROP COLUMN "title";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "submission_contents_submission_id_lang_key" ON "submission_contents"("submission_id", "lang");
+
+-- AddForeignKey
+ALTER TABLE "submission_contents" ADD CONSTRAINT "submission_contents_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
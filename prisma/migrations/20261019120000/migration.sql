@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "QuestionType" AS ENUM ('TEXT', 'LONG_TEXT', 'SINGLE_CHOICE', 'MULTIPLE_CHOICE', 'NUMBER', 'URL');
+
+-- CreateTable
+CREATE TABLE "activity_questions" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" "QuestionType" NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "min_length" INTEGER,
+    "max_length" INTEGER,
+    "min_value" DOUBLE PRECISION,
+    "max_value" DOUBLE PRECISION,
+    "options" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "activity_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "activity_question_contents" (
+    "id" UUID NOT NULL,
+    "question_id" UUID NOT NULL,
+    "lang" VARCHAR(15) NOT NULL,
+    "label" VARCHAR(255) NOT NULL,
+    "description" TEXT,
+
+    CONSTRAINT "activity_question_contents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "submission_answers" (
+    "id" UUID NOT NULL,
+    "submission_id" UUID NOT NULL,
+    "question_id" UUID NOT NULL,
+    "value" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "submission_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "activity_questions_activity_id_position_idx" ON "activity_questions"("activity_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activity_question_contents_question_id_lang_key" ON "activity_question_contents"("question_id", "lang");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "submission_answers_submission_id_question_id_key" ON "submission_answers"("submission_id", "question_id");
+
+-- AddForeignKey
+ALTER TABLE "activity_questions" ADD CONSTRAINT "activity_questions_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_question_contents" ADD CONSTRAINT "activity_question_contents_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "activity_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_answers" ADD CONSTRAINT "submission_answers_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_answers" ADD CONSTRAINT "submission_answers_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "activity_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
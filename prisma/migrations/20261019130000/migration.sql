@@ -0,0 +1,83 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "open_review" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "review_criteria" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" TEXT,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "min_score" INTEGER NOT NULL,
+    "max_score" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_assignments" (
+    "submission_id" UUID NOT NULL,
+    "reviewer_id" UUID NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_assignments_pkey" PRIMARY KEY ("submission_id","reviewer_id")
+);
+
+-- CreateTable
+CREATE TABLE "reviews" (
+    "id" UUID NOT NULL,
+    "submission_id" UUID NOT NULL,
+    "reviewer_id" UUID NOT NULL,
+    "comment" TEXT,
+    "confidence" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_scores" (
+    "review_id" UUID NOT NULL,
+    "criterion_id" UUID NOT NULL,
+    "score" INTEGER NOT NULL,
+
+    CONSTRAINT "review_scores_pkey" PRIMARY KEY ("review_id","criterion_id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_criteria_activity_id_position_idx" ON "review_criteria"("activity_id", "position");
+
+-- CreateIndex
+CREATE INDEX "review_assignments_reviewer_id_idx" ON "review_assignments"("reviewer_id");
+
+-- CreateIndex
+CREATE INDEX "reviews_reviewer_id_idx" ON "reviews"("reviewer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviews_submission_id_reviewer_id_key" ON "reviews"("submission_id", "reviewer_id");
+
+-- AddForeignKey
+ALTER TABLE "review_criteria" ADD CONSTRAINT "review_criteria_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_scores" ADD CONSTRAINT "review_scores_review_id_fkey" FOREIGN KEY ("review_id") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_scores" ADD CONSTRAINT "review_scores_criterion_id_fkey" FOREIGN KEY ("criterion_id") REFERENCES "review_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "blind_review" BOOLEAN NOT NULL DEFAULT false;
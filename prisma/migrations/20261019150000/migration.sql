@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "review_conflicts" (
+    "submission_id" UUID NOT NULL,
+    "reviewer_id" UUID NOT NULL,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_conflicts_pkey" PRIMARY KEY ("submission_id","reviewer_id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_conflicts_reviewer_id_idx" ON "review_conflicts"("reviewer_id");
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
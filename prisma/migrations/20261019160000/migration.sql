@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "SubmissionDecision" AS ENUM ('ACCEPTED', 'REJECTED', 'WAITLISTED');
+
+-- CreateEnum
+CREATE TYPE "ConfirmationStatus" AS ENUM ('PENDING', 'CONFIRMED', 'DECLINED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "confirmation_days" INTEGER NOT NULL DEFAULT 14,
+ADD COLUMN     "decisions_published_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "submissions" ADD COLUMN     "confirmation_deadline" TIMESTAMP(3),
+ADD COLUMN     "confirmation_responded_at" TIMESTAMP(3),
+ADD COLUMN     "confirmation_status" "ConfirmationStatus",
+ADD COLUMN     "decided_at" TIMESTAMP(3),
+ADD COLUMN     "decision" "SubmissionDecision",
+ADD COLUMN     "waitlist_rank" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "submissions_confirmation_status_confirmation_deadline_idx" ON "submissions"("confirmation_status", "confirmation_deadline");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "EmailStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "members" ADD COLUMN     "preferred_language" VARCHAR(15);
+
+-- CreateTable
+CREATE TABLE "email_outbox" (
+    "id" UUID NOT NULL,
+    "recipient" VARCHAR(255) NOT NULL,
+    "template" VARCHAR(50) NOT NULL,
+    "lang" VARCHAR(15) NOT NULL,
+    "subject" VARCHAR(255) NOT NULL,
+    "text" TEXT NOT NULL,
+    "status" "EmailStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_outbox_status_next_attempt_at_idx" ON "email_outbox"("status", "next_attempt_at");
@@ -0,0 +1,71 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "schedule_published_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "rooms" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "capacity" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "time_slots" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "start_at" TIMESTAMP(3) NOT NULL,
+    "end_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "time_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduled_sessions" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "submission_id" UUID NOT NULL,
+    "room_id" UUID NOT NULL,
+    "slot_id" UUID NOT NULL,
+    "duration_minutes" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rooms_activity_id_name_key" ON "rooms"("activity_id", "name");
+
+-- CreateIndex
+CREATE INDEX "time_slots_activity_id_start_at_idx" ON "time_slots"("activity_id", "start_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_sessions_submission_id_key" ON "scheduled_sessions"("submission_id");
+
+-- CreateIndex
+CREATE INDEX "scheduled_sessions_activity_id_idx" ON "scheduled_sessions"("activity_id");
+
+-- AddForeignKey
+ALTER TABLE "rooms" ADD CONSTRAINT "rooms_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_slots" ADD CONSTRAINT "time_slots_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_sessions" ADD CONSTRAINT "scheduled_sessions_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_sessions" ADD CONSTRAINT "scheduled_sessions_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_sessions" ADD CONSTRAINT "scheduled_sessions_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_sessions" ADD CONSTRAINT "scheduled_sessions_slot_id_fkey" FOREIGN KEY ("slot_id") REFERENCES "time_slots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
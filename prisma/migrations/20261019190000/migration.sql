@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "scheduled_sessions" ADD COLUMN     "track" VARCHAR(100);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "members" ADD COLUMN     "ban_reason" VARCHAR(500),
+ADD COLUMN     "banned_at" TIMESTAMP(3);
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "member_roles" ADD COLUMN     "activity_id" UUID,
+ADD COLUMN     "id" UUID;
+
+UPDATE "member_roles" SET "id" = gen_random_uuid();
+
+ALTER TABLE "member_roles" ALTER COLUMN "id" SET NOT NULL,
+DROP CONSTRAINT "member_roles_pkey",
+ADD CONSTRAINT "member_roles_pkey" PRIMARY KEY ("id");
+
+-- CreateIndex
+CREATE INDEX "member_roles_activity_id_idx" ON "member_roles"("activity_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "member_roles_member_id_role_id_activity_id_key" ON "member_roles"("member_id", "role_id", "activity_id") NULLS NOT DISTINCT;
+
+-- AddForeignKey
+ALTER TABLE "member_roles" ADD CONSTRAINT "member_roles_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
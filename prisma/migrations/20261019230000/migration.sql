@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "member_providers" ADD COLUMN     "email" VARCHAR(255),
+ADD COLUMN     "linked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE "member_providers" SET "linked_at" = "created_at";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "member_providers_member_id_provider_key" ON "member_providers"("member_id", "provider");
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "EmailLoginEvent" AS ENUM ('REQUESTED', 'RATE_LIMITED', 'DELIVERY_FAILED', 'VERIFIED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "email_login_tokens" (
+    "id" UUID NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_login_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "email_login_attempts" (
+    "id" UUID NOT NULL,
+    "email" VARCHAR(255),
+    "event" "EmailLoginEvent" NOT NULL,
+    "reason" VARCHAR(255),
+    "ip" VARCHAR(64),
+    "user_agent" VARCHAR(500),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_login_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_login_tokens_token_hash_key" ON "email_login_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "email_login_tokens_email_created_at_idx" ON "email_login_tokens"("email", "created_at");
+
+-- CreateIndex
+CREATE INDEX "email_login_attempts_email_created_at_idx" ON "email_login_attempts"("email", "created_at");
@@ -0,0 +1,6 @@
+-- The manual closure timestamp becomes the CFP close date
+ALTER TABLE "activities" RENAME COLUMN "closed_at" TO "cfp_close_at";
+
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "cfp_open_at" TIMESTAMP(3),
+ADD COLUMN     "cfp_grace_minutes" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "published_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "activity_content_drafts" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "lang" VARCHAR(15) NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "description" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "activity_content_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "activity_content_revisions" (
+    "id" UUID NOT NULL,
+    "activity_id" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "contents" JSONB NOT NULL,
+    "restored_from" INTEGER,
+    "published_by_id" UUID,
+    "published_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_content_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activity_content_drafts_activity_id_lang_key" ON "activity_content_drafts"("activity_id", "lang");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activity_content_revisions_activity_id_version_key" ON "activity_content_revisions"("activity_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "activity_content_drafts" ADD CONSTRAINT "activity_content_drafts_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_content_revisions" ADD CONSTRAINT "activity_content_revisions_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_content_revisions" ADD CONSTRAINT "activity_content_revisions_published_by_id_fkey" FOREIGN KEY ("published_by_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing contents were live: treat them as published version 1 and start
+-- the drafts from them
+UPDATE "activities" SET "published_at" = "created_at"
+WHERE "id" IN (SELECT DISTINCT "activity_id" FROM "activity_contents");
+
+INSERT INTO "activity_content_drafts" ("id", "activity_id", "lang", "title", "description", "updated_at")
+SELECT gen_random_uuid(), "activity_id", "lang", "title", "description", CURRENT_TIMESTAMP
+FROM "activity_contents";
+
+INSERT INTO "activity_content_revisions" ("id", "activity_id", "version", "contents")
+SELECT gen_random_uuid(), "activity_id", 1,
+       jsonb_agg(jsonb_build_object('lang', "lang", 'title', "title", 'description', "description") ORDER BY "lang")
+FROM "activity_contents"
+GROUP BY "activity_id";
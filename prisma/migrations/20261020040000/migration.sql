@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "archived_at" TIMESTAMP(3),
+ADD COLUMN     "deleted_at" TIMESTAMP(3),
+ADD COLUMN     "released_slug" VARCHAR(255);
+
+-- CreateIndex
+CREATE INDEX "activities_deleted_at_idx" ON "activities"("deleted_at");
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "UploadKind" AS ENUM ('AVATAR', 'SLIDES');
+
+-- AlterTable
+ALTER TABLE "members" ADD COLUMN     "avatar_upload_id" UUID,
+ADD COLUMN     "provider_avatar_url" TEXT;
+
+-- Avatars so far all came from login providers
+UPDATE "members" SET "provider_avatar_url" = "avatar_url";
+
+-- CreateTable
+CREATE TABLE "uploads" (
+    "id" UUID NOT NULL,
+    "owner_id" UUID NOT NULL,
+    "kind" "UploadKind" NOT NULL,
+    "storage_key" VARCHAR(255) NOT NULL,
+    "content_type" VARCHAR(100) NOT NULL,
+    "size" INTEGER NOT NULL,
+    "file_name" VARCHAR(255) NOT NULL,
+    "submission_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "uploads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "members_avatar_upload_id_key" ON "members"("avatar_upload_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uploads_storage_key_key" ON "uploads"("storage_key");
+
+-- CreateIndex
+CREATE INDEX "uploads_owner_id_idx" ON "uploads"("owner_id");
+
+-- CreateIndex
+CREATE INDEX "uploads_submission_id_idx" ON "uploads"("submission_id");
+
+-- AddForeignKey
+ALTER TABLE "members" ADD CONSTRAINT "members_avatar_upload_id_fkey" FOREIGN KEY ("avatar_upload_id") REFERENCES "uploads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -10,7 +10,16 @@ const adapter = new PrismaPg(pool);
 const prisma = new PrismaClient({ adapter });
 
 async function main() {
-  const permissionCodes = ["activity:manage"];
+  // The server registers every code used by @Permissions at startup; these
+  // are the ones the admin role is seeded with
+  const permissionCodes = [
+    "activity:manage",
+    "submission:manage",
+    "review:submit",
+    "member:manage",
+    "role:manage",
+    "audit:read",
+  ];
 
   const permissions = await Promise.all(
     permissionCodes.map((code) =>
@@ -28,20 +37,24 @@ async function main() {
   console.log(`Created ${permissions.length} permissions.`);
 
   // Create admin role with all permissions
-  await prisma.role.upsert({
+  const adminRole = await prisma.role.upsert({
     where: { name: "admin" },
     update: {},
     create: withId({
       name: "admin",
       description: "admin",
-      permissions: {
-        create: permissions.map((p) => ({
-          permission_id: p.id,
-        })),
-      },
     }),
   });
 
+  // Attach permissions added since the role was first seeded
+  await prisma.rolePermission.createMany({
+    data: permissions.map((p) => ({
+      role_id: adminRole.id,
+      permission_id: p.id,
+    })),
+    skipDuplicates: true,
+  });
+
   console.log("Admin role seeded with all permissions.");
 
   console.log("Seed data created successfully!");
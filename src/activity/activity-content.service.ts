@@ -0,0 +1,220 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { withId } from "src/common/utils/db.util";
+import { AuditService } from "../audit/audit.service";
+import {
+  ContentSnapshot,
+  diffContents,
+  sameContents,
+} from "./utils/content-diff.util";
+
+const revisionSelect = {
+  id: true,
+  version: true,
+  restoredFrom: true,
+  publishedAt: true,
+  publishedBy: { select: { id: true, displayName: true } },
+};
+
+/**
+ * Content edits go to drafts; publishing copies them to the live contents
+ * and keeps a numbered snapshot of every published version.
+ */
+@Injectable()
+export class ActivityContentService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Publish the drafts in supported languages as the next revision
+   */
+  async publish(memberId: string, activityId: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { id: activityId },
+      select: {
+        supportedLanguages: true,
+        contentDrafts: {
+          select: { lang: true, title: true, description: true },
+          orderBy: { lang: "asc" },
+        },
+      },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+
+    const contents = activity.contentDrafts.filter((c) =>
+      activity.supportedLanguages.includes(c.lang),
+    );
+    if (contents.length === 0) {
+      throw new BadRequestException("There is no draft content to publish");
+    }
+
+    const latest = await this.findLatest(activityId);
+    if (latest && sameContents(this.snapshot(latest.contents), contents)) {
+      throw new BadRequestException("The draft has no unpublished changes");
+    }
+
+    return this.release(memberId, activityId, contents, null);
+  }
+
+  async findRevisions(activityId: string) {
+    await this.assertActivityExists(activityId);
+
+    return this.prisma.activityContentRevision.findMany({
+      where: { activityId },
+      select: revisionSelect,
+      orderBy: { version: "desc" },
+    });
+  }
+
+  async findRevision(activityId: string, version: number) {
+    const revision = await this.prisma.activityContentRevision.findUnique({
+      where: { activityId_version: { activityId, version } },
+      select: { ...revisionSelect, contents: true },
+    });
+    if (!revision) throw new NotFoundException("Revision not found");
+    return revision;
+  }
+
+  /**
+   * What changed from one revision to another
+   */
+  async diff(activityId: string, from: number, to: number) {
+    const [before, after] = await Promise.all([
+      this.findRevision(activityId, from),
+      this.findRevision(activityId, to),
+    ]);
+
+    return {
+      from,
+      to,
+      ...diffContents(
+        this.snapshot(before.contents),
+        this.snapshot(after.contents),
+      ),
+    };
+  }
+
+  /**
+   * Publish an earlier revision again as the next one; the drafts are reset
+   * to it so later edits start from what is live
+   */
+  async rollback(memberId: string, activityId: string, version: number) {
+    const target = await this.findRevision(activityId, version);
+    const latest = await this.findLatest(activityId);
+    if (latest?.version === version) {
+      throw new BadRequestException("This revision is already published");
+    }
+
+    return this.release(
+      memberId,
+      activityId,
+      this.snapshot(target.contents),
+      version,
+    );
+  }
+
+  // ========== Private Methods ==========
+
+  private async release(
+    memberId: string,
+    activityId: string,
+    contents: ContentSnapshot[],
+    restoredFrom: number | null,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      // Touching the activity first locks its row, so concurrent publishes
+      // take turns and each sees the version the previous one created
+      const activity = await tx.activity.update({
+        where: { id: activityId },
+        data: { updatedAt: new Date() },
+        select: { publishedAt: true, archivedAt: true, deletedAt: true },
+      });
+      if (activity.archivedAt || activity.deletedAt) {
+        throw new BadRequestException(
+          "Archived or deleted activities must be restored before publishing",
+        );
+      }
+      const latest = await tx.activityContentRevision.findFirst({
+        where: { activityId },
+        select: { version: true },
+        orderBy: { version: "desc" },
+      });
+
+      const revision = await tx.activityContentRevision.create({
+        data: withId({
+          activityId,
+          version: (latest?.version ?? 0) + 1,
+          contents: contents.map(({ lang, title, description }) => ({
+            lang,
+            title,
+            description,
+          })),
+          restoredFrom,
+          publishedById: memberId,
+        }),
+        select: revisionSelect,
+      });
+
+      await tx.activityContent.deleteMany({ where: { activityId } });
+      await tx.activityContent.createMany({
+        data: contents.map((content) => withId({ activityId, ...content })),
+      });
+
+      if (restoredFrom !== null) {
+        await tx.activityContentDraft.deleteMany({ where: { activityId } });
+        await tx.activityContentDraft.createMany({
+          data: contents.map((content) => withId({ activityId, ...content })),
+        });
+      }
+
+      if (!activity.publishedAt) {
+        await tx.activity.update({
+          where: { id: activityId },
+          data: { publishedAt: revision.publishedAt },
+        });
+      }
+
+      await this.auditService.record(
+        {
+          action:
+            restoredFrom !== null
+              ? "activity.content.rollback"
+              : "activity.content.publish",
+          entityType: "activity",
+          entityId: activityId,
+          metadata: { version: revision.version, restoredFrom },
+        },
+        tx,
+      );
+
+      return revision;
+    });
+  }
+
+  private async findLatest(activityId: string) {
+    return this.prisma.activityContentRevision.findFirst({
+      where: { activityId },
+      select: { version: true, contents: true },
+      orderBy: { version: "desc" },
+    });
+  }
+
+  private async assertActivityExists(activityId: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { id: activityId },
+      select: { id: true },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+  }
+
+  // Revision contents are stored as JSON in the ContentSnapshot shape
+  private snapshot(contents: unknown): ContentSnapshot[] {
+    return contents as ContentSnapshot[];
+  }
+}
@@ -7,20 +7,77 @@ import {
   ParseUUIDPipe,
   Query,
   Patch,
+  Headers,
+  DefaultValuePipe,
+  ParseIntPipe,
+  ParseEnumPipe,
+  HttpCode,
+  Delete,
 } from "@nestjs/common";
 import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from "@nestjs/swagger";
-import { ActivityService } from "./activity.service";
-import { CreateActivityDto, UpdateActivityDto } from "./dto/activity.dto";
+import { ACTIVITY_RETENTION_DAYS, ActivityService } from "./activity.service";
+import { ActivityContentService } from "./activity-content.service";
+import {
+  ActivitySortField,
+  ActivityState,
+  CloneActivityDto,
+  CreateActivityDto,
+  PublicActivityFilter,
+  RestoreActivityDto,
+  UpdateActivityDto,
+} from "./dto/activity.dto";
 import { Permissions } from "../auth/decorators/permissions.decorator";
+import { ActivityScope } from "../auth/decorators/activity-scope.decorator";
 import { Public } from "src/auth/decorators/public.decorator";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+import { Prisma } from "../../generated/prisma/client";
 
 @ApiTags("Activities")
 @Controller("activities")
 export class ActivityController {
-  constructor(private readonly activityService: ActivityService) {}
+  constructor(
+    private readonly activityService: ActivityService,
+    private readonly activityContentService: ActivityContentService,
+  ) {}
 
   // ========== Public API ==========
 
+  @Public()
+  @Get("public")
+  @ApiOperation({ summary: "List activities (public)" })
+  @ApiQuery({ name: "status", required: false, enum: PublicActivityFilter })
+  @ApiQuery({ name: "year", required: false, example: 2026 })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description:
+      "Preferred content language; falls back to Accept-Language, then the first supported language",
+  })
+  @ApiQuery({ name: "page", required: false, example: 1 })
+  @ApiQuery({ name: "limit", required: false, example: 20 })
+  async findPublic(
+    @Query(
+      "status",
+      new ParseEnumPipe(PublicActivityFilter, { optional: true }),
+    )
+    status?: PublicActivityFilter,
+    @Query("year", new ParseIntPipe({ optional: true })) year?: number,
+    @Query("lang") lang?: string,
+    @Headers("accept-language") acceptLanguage?: string,
+    @Query("page", new DefaultValuePipe(1), ParseIntPipe) page = 1,
+    @Query("limit", new DefaultValuePipe(20), ParseIntPipe) limit = 20,
+  ) {
+    return this.activityService.findPublic({
+      status,
+      year,
+      lang,
+      acceptLanguage,
+      page: Math.max(page, 1),
+      limit: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
   // public: get by slug (only active)
   @Public()
   @Get("slug/:slug")
@@ -28,16 +85,21 @@ export class ActivityController {
   @ApiQuery({
     name: "lang",
     required: false,
-    description: "Optional language code to filter contents",
+    description:
+      "Preferred content language; falls back to Accept-Language, then the first supported language",
   })
   @ApiResponse({
     status: 200,
     description:
-      "Returns the activity metadata and, when a language is provided, only the corresponding content",
+      "Returns the activity metadata and its computed status; with a language preference, only the best matching content",
   })
   @ApiResponse({ status: 404, description: "Activity not found" })
-  async findBySlug(@Param("slug") slug: string, @Query("lang") lang?: string) {
-    return this.activityService.findOneBySlug(slug, lang);
+  async findBySlug(
+    @Param("slug") slug: string,
+    @Query("lang") lang?: string,
+    @Headers("accept-language") acceptLanguage?: string,
+  ) {
+    return this.activityService.findOneBySlug(slug, lang, acceptLanguage);
   }
 
   // ========== Admin API ==========
@@ -57,13 +119,58 @@ export class ActivityController {
 
   @Permissions("activity:manage")
   @Get()
-  @ApiOperation({ summary: "Get all activities" })
-  async findAll() {
-    return this.activityService.findAll();
+  @ApiOperation({ summary: "List activities (for admin)" })
+  @ApiQuery({
+    name: "search",
+    required: false,
+    description: "Matches name or slug",
+  })
+  @ApiQuery({
+    name: "state",
+    required: false,
+    enum: ActivityState,
+    description: "Defaults to every activity that is not deleted",
+  })
+  @ApiQuery({ name: "sort", required: false, enum: ActivitySortField })
+  @ApiQuery({ name: "order", required: false, enum: Prisma.SortOrder })
+  @ApiQuery({
+    name: "cursor",
+    required: false,
+    description: "nextCursor from the previous page",
+  })
+  @ApiQuery({ name: "limit", required: false, example: 50 })
+  async findAll(
+    @Query("search") search?: string,
+    @Query("state", new ParseEnumPipe(ActivityState, { optional: true }))
+    state?: ActivityState,
+    @Query(
+      "sort",
+      new DefaultValuePipe(ActivitySortField.CREATED_AT),
+      new ParseEnumPipe(ActivitySortField),
+    )
+    sort = ActivitySortField.CREATED_AT,
+    @Query(
+      "order",
+      new DefaultValuePipe(Prisma.SortOrder.desc),
+      new ParseEnumPipe(Prisma.SortOrder),
+    )
+    order: Prisma.SortOrder = Prisma.SortOrder.desc,
+    @Query("cursor", new ParseUUIDPipe({ optional: true })) cursor?: string,
+    @Query("limit", new DefaultValuePipe(50), ParseIntPipe) limit = 50,
+  ) {
+    return this.activityService.findAll({
+      search,
+      state,
+      sort,
+      order,
+      cursor,
+      limit: Math.min(Math.max(limit, 1), 200),
+    });
   }
 
   // admin: get by ID (includes all languages)
   @Permissions("activity:manage")
+  @ActivityScope("id")
   @Get(":id")
   @ApiOperation({ summary: "Get activity by ID (for admin)" })
   async findOne(@Param("id", ParseUUIDPipe) id: string) {
@@ -71,6 +178,7 @@ export class ActivityController {
   }
 
   @Permissions("activity:manage")
+  @ActivityScope("id")
   @Patch(":id")
   @ApiOperation({ summary: "Update activity" })
   @ApiResponse({ status: 200, description: "Activity updated successfully" })
@@ -86,4 +194,168 @@ export class ActivityController {
   ) {
     return this.activityService.update(id, dto);
   }
+
+  @Permissions("activity:manage")
+  @Post(":id/clone")
+  @ApiOperation({
+    summary: "Copy an activity and its configuration as a new edition",
+  })
+  @ApiResponse({
+    status: 201,
+    description: "The new activity, with what was copied and what was skipped",
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid input or validation failed",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  @ApiResponse({ status: 409, description: "Slug already exists" })
+  async clone(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: CloneActivityDto,
+  ) {
+    return this.activityService.clone(id, dto);
+  }
+
+  // ========== Lifecycle ==========
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/archive")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Archive an activity, making it read-only" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  @ApiResponse({ status: 409, description: "Activity is already archived" })
+  async archive(@Param("id", ParseUUIDPipe) id: string) {
+    return this.activityService.archive(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Delete(":id")
+  @ApiOperation({
+    summary: "Soft-delete an activity; its slug stays reserved",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  @ApiResponse({ status: 409, description: "Activity is already deleted" })
+  async softDelete(@Param("id", ParseUUIDPipe) id: string) {
+    return this.activityService.softDelete(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/restore")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Restore an archived or deleted activity" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  @ApiResponse({
+    status: 409,
+    description: "Activity is active, or its slug has been taken meanwhile",
+  })
+  async restore(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: RestoreActivityDto,
+  ) {
+    return this.activityService.restore(id, dto);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/release-slug")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Free the slug of a deleted activity for reuse" })
+  @ApiResponse({ status: 400, description: "Activity is not deleted" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  @ApiResponse({ status: 409, description: "Slug has already been released" })
+  async releaseSlug(@Param("id", ParseUUIDPipe) id: string) {
+    return this.activityService.releaseSlug(id);
+  }
+
+  // Not activity-scoped: only global activity managers may purge
+  @Permissions("activity:manage")
+  @Delete(":id/purge")
+  @HttpCode(204)
+  @ApiOperation({
+    summary: `Permanently delete an activity soft-deleted over ${ACTIVITY_RETENTION_DAYS} days ago`,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Activity is not deleted or still within retention",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async purge(@Param("id", ParseUUIDPipe) id: string) {
+    await this.activityService.purge(id);
+  }
+
+  // ========== Content Publishing ==========
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/publish")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Publish the draft contents as a new revision" })
+  @ApiResponse({
+    status: 400,
+    description: "No draft content, or nothing changed since the last publish",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async publish(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.activityContentService.publish(user.id, id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/revisions")
+  @ApiOperation({ summary: "List published content revisions, newest first" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findRevisions(@Param("id", ParseUUIDPipe) id: string) {
+    return this.activityContentService.findRevisions(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/revisions/diff")
+  @ApiOperation({ summary: "Compare two content revisions" })
+  @ApiQuery({ name: "from", example: 1 })
+  @ApiQuery({ name: "to", example: 2 })
+  @ApiResponse({ status: 404, description: "Revision not found" })
+  async diffRevisions(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query("from", ParseIntPipe) from: number,
+    @Query("to", ParseIntPipe) to: number,
+  ) {
+    return this.activityContentService.diff(id, from, to);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/revisions/:version")
+  @ApiOperation({ summary: "Get a content revision" })
+  @ApiResponse({ status: 404, description: "Revision not found" })
+  async findRevision(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("version", ParseIntPipe) version: number,
+  ) {
+    return this.activityContentService.findRevision(id, version);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/revisions/:version/rollback")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Publish an earlier revision again and reset the drafts to it",
+  })
+  @ApiResponse({ status: 400, description: "Revision is already published" })
+  @ApiResponse({ status: 404, description: "Revision not found" })
+  async rollback(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("version", ParseIntPipe) version: number,
+  ) {
+    return this.activityContentService.rollback(user.id, id, version);
+  }
 }
@@ -1,9 +1,12 @@
 import { Module } from "@nestjs/common";
 import { ActivityController } from "./activity.controller";
 import { ActivityService } from "./activity.service";
+import { ActivityContentService } from "./activity-content.service";
+import { UploadModule } from "../upload/upload.module";
 
 @Module({
+  imports: [UploadModule],
   controllers: [ActivityController],
-  providers: [ActivityService],
+  providers: [ActivityService, ActivityContentService],
 })
 export class ActivityModule {}
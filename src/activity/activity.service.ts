@@ -6,96 +6,302 @@ import {
 } from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
 import {
-  ActivityContentDto,
+  ActivitySortField,
+  ActivityState,
+  CloneActivityDto,
   CreateActivityDto,
+  PublicActivityFilter,
+  RestoreActivityDto,
   UpdateActivityDto,
 } from "./dto/activity.dto";
 import { withId } from "src/common/utils/db.util";
+import {
+  parseAcceptLanguage,
+  resolveContent,
+  validateContentLanguages,
+} from "src/common/utils/language.util";
+import { AuditService } from "../audit/audit.service";
+import { UploadService } from "../upload/upload.service";
+import {
+  ActivityStatus,
+  computeActivityStatus,
+  MAX_CFP_GRACE_MINUTES,
+  withActivityStatus,
+} from "./utils/activity-status.util";
+import { assertActivityEditable } from "./utils/activity-state.util";
+import { Prisma } from "../../generated/prisma/client";
+
+export interface PublicActivitySearch {
+  status?: PublicActivityFilter;
+  year?: number;
+  lang?: string;
+  acceptLanguage?: string;
+  page: number;
+  limit: number;
+}
+
+// How long a soft-deleted activity is kept before it may be purged
+export const ACTIVITY_RETENTION_DAYS = 30;
+
+export interface ActivitySearch {
+  search?: string;
+  state?: ActivityState;
+  sort: ActivitySortField;
+  order: Prisma.SortOrder;
+  cursor?: string;
+  limit: number;
+}
+
+const publicActivitySelect = {
+  slug: true,
+  startAt: true,
+  endAt: true,
+  cfpOpenAt: true,
+  cfpCloseAt: true,
+  cfpGraceMinutes: true,
+  supportedLanguages: true,
+  contents: { select: { lang: true, title: true, description: true } },
+} as const;
 
 @Injectable()
 export class ActivityService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private uploadService: UploadService,
+  ) {}
 
   async create(dto: CreateActivityDto) {
     // Validate dates
-    this.validateDates(dto.startAt, dto.endAt, dto.closedAt);
+    this.validateDates(
+      dto.startAt,
+      dto.endAt,
+      dto.cfpOpenAt ?? null,
+      dto.cfpCloseAt ?? null,
+    );
 
     // Check if slug already exists
     await this.checkSlugExists(dto.slug);
 
     // Validate content languages
-    this.validateContentLanguages(dto.contents, dto.supportedLanguages);
-
-    return this.prisma.activity.create({
-      data: withId({
-        name: dto.name,
-        slug: dto.slug,
-        startAt: dto.startAt,
-        endAt: dto.endAt,
-        closedAt: dto.closedAt || null,
-        supportedLanguages: dto.supportedLanguages,
-        contents: {
-          create: dto.contents.map((content) =>
-            withId({
-              lang: content.lang,
-              title: content.title,
-              description: content.description,
-            }),
-          ),
+    validateContentLanguages(dto.contents, dto.supportedLanguages);
+
+    return this.prisma.$transaction(async (tx) => {
+      const activity = await tx.activity.create({
+        data: withId({
+          name: dto.name,
+          slug: dto.slug,
+          startAt: dto.startAt,
+          endAt: dto.endAt,
+          cfpOpenAt: dto.cfpOpenAt ?? null,
+          cfpCloseAt: dto.cfpCloseAt ?? null,
+          cfpGraceMinutes: dto.cfpGraceMinutes ?? 0,
+          openReview: dto.openReview ?? false,
+          blindReview: dto.blindReview ?? false,
+          ...(dto.confirmationDays && {
+            confirmationDays: dto.confirmationDays,
+          }),
+          supportedLanguages: dto.supportedLanguages,
+          // Contents start as drafts; the activity stays hidden until published
+          contentDrafts: {
+            create: dto.contents.map((content) =>
+              withId({
+                lang: content.lang,
+                title: content.title,
+                description: content.description,
+              }),
+            ),
+          },
+        }),
+        include: { contents: true, contentDrafts: true },
+      });
+
+      await this.auditService.record(
+        {
+          action: "activity.create",
+          entityType: "activity",
+          entityId: activity.id,
+          after: activity,
         },
-      }),
-      include: { contents: true },
+        tx,
+      );
+
+      return withActivityStatus(activity);
     });
   }
-  async findAll() {
-    return this.prisma.activity.findMany({
-      orderBy: { createdAt: "desc" },
+
+  // admin: cursor-paginated listing
+  async findAll(query: ActivitySearch) {
+    // Deleted activities only show up when asked for
+    const where: Prisma.ActivityWhereInput = {
+      ...(query.state === ActivityState.DELETED
+        ? { deletedAt: { not: null } }
+        : { deletedAt: null }),
+      ...(query.state === ActivityState.ACTIVE && { archivedAt: null }),
+      ...(query.state === ActivityState.ARCHIVED && {
+        archivedAt: { not: null },
+      }),
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: "insensitive" } },
+          { slug: { contains: query.search.toLowerCase() } },
+        ],
+      }),
+    };
+
+    // The id tie-break keeps the order stable for the cursor
+    const activities = await this.prisma.activity.findMany({
+      where,
+      orderBy: [{ [query.sort]: query.order }, { id: query.order }],
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      take: query.limit + 1,
     });
+
+    const items = activities.slice(0, query.limit);
+    const now = new Date();
+    return {
+      items: items.map((activity) => withActivityStatus(activity, now)),
+      nextCursor:
+        activities.length > query.limit ? items[items.length - 1].id : null,
+    };
+  }
+
+  // public: paginated listing, one content per activity
+  async findPublic(query: PublicActivitySearch) {
+    const now = new Date();
+    const conditions: Prisma.ActivityWhereInput[] = [];
+
+    if (query.year) {
+      conditions.push({
+        startAt: {
+          gte: new Date(Date.UTC(query.year, 0, 1)),
+          lt: new Date(Date.UTC(query.year + 1, 0, 1)),
+        },
+      });
+    }
+    if (query.status === PublicActivityFilter.UPCOMING) {
+      conditions.push({ startAt: { gt: now } });
+    }
+    if (query.status === PublicActivityFilter.PAST) {
+      conditions.push({ endAt: { lte: now } });
+    }
+    if (query.status === PublicActivityFilter.CFP_OPEN) {
+      // Narrowed further below, as the grace period cannot be queried
+      conditions.push(
+        { startAt: { gt: now } },
+        { OR: [{ cfpOpenAt: null }, { cfpOpenAt: { lte: now } }] },
+        {
+          OR: [
+            { cfpCloseAt: null },
+            {
+              cfpCloseAt: {
+                gt: new Date(now.getTime() - MAX_CFP_GRACE_MINUTES * 60 * 1000),
+              },
+            },
+          ],
+        },
+      );
+    }
+
+    const where: Prisma.ActivityWhereInput = {
+      publishedAt: { not: null },
+      deletedAt: null,
+      AND: conditions,
+    };
+    const orderBy: Prisma.ActivityOrderByWithRelationInput = {
+      startAt:
+        query.status === PublicActivityFilter.UPCOMING ||
+        query.status === PublicActivityFilter.CFP_OPEN
+          ? "asc"
+          : "desc",
+    };
+    const skip = (query.page - 1) * query.limit;
+
+    let activities: Prisma.ActivityGetPayload<{
+      select: typeof publicActivitySelect;
+    }>[];
+    let total: number;
+    if (query.status === PublicActivityFilter.CFP_OPEN) {
+      // Only activities that have not started yet, so the set stays small
+      const candidates = (
+        await this.prisma.activity.findMany({
+          where,
+          orderBy,
+          select: publicActivitySelect,
+        })
+      ).filter(
+        (activity) =>
+          computeActivityStatus(activity, now) === ActivityStatus.CFP_OPEN,
+      );
+      activities = candidates.slice(skip, skip + query.limit);
+      total = candidates.length;
+    } else {
+      [activities, total] = await Promise.all([
+        this.prisma.activity.findMany({
+          where,
+          orderBy,
+          select: publicActivitySelect,
+          skip,
+          take: query.limit,
+        }),
+        this.prisma.activity.count({ where }),
+      ]);
+    }
+
+    const preferred = this.preferredLanguages(query.lang, query.acceptLanguage);
+    return {
+      items: activities.map((activity) =>
+        this.localize(withActivityStatus(activity, now), preferred),
+      ),
+      total,
+      page: query.page,
+      limit: query.limit,
+    };
   }
 
   // admin: get by ID
   async findOneById(id: string) {
     const activity = await this.prisma.activity.findUnique({
       where: { id },
-      include: { contents: true },
+      include: { contents: true, contentDrafts: true },
     });
     if (!activity) throw new NotFoundException("Activity not found");
-    return activity;
+    return withActivityStatus(activity);
   }
 
   // public: get by slug
-  async findOneBySlug(slug: string, lang?: string) {
+  async findOneBySlug(slug: string, lang?: string, acceptLanguage?: string) {
     const activity = await this.prisma.activity.findUnique({
-      where: { slug },
-      select: {
-        slug: true,
-        startAt: true,
-        endAt: true,
-        closedAt: true,
-        supportedLanguages: true,
-        contents: {
-          select: { lang: true, title: true, description: true },
-          where: lang ? { lang: lang.toLowerCase() } : undefined,
-        },
-      },
+      where: { slug, publishedAt: { not: null }, deletedAt: null },
+      select: publicActivitySelect,
     });
     if (!activity) throw new NotFoundException("Activity not found");
 
-    return this.applySupportedLanguageFilter(activity);
+    // Without any language preference every supported content is returned
+    const preferred = this.preferredLanguages(lang, acceptLanguage);
+    return preferred.length > 0
+      ? this.localize(withActivityStatus(activity), preferred)
+      : this.applySupportedLanguageFilter(withActivityStatus(activity));
   }
 
   async update(id: string, dto: UpdateActivityDto) {
     // Check if activity exists
     const activity = await this.findOneById(id);
+    assertActivityEditable(activity);
 
     // Validate dates if any date field is being updated
-    if (dto.startAt || dto.endAt || dto.closedAt !== undefined) {
-      const startAt = dto.startAt || activity.startAt;
-      const endAt = dto.endAt || activity.endAt;
-      const closedAt =
-        dto.closedAt !== undefined ? dto.closedAt : activity.closedAt;
-
-      this.validateDates(startAt, endAt, closedAt);
+    if (
+      dto.startAt ||
+      dto.endAt ||
+      dto.cfpOpenAt !== undefined ||
+      dto.cfpCloseAt !== undefined
+    ) {
+      this.validateDates(
+        dto.startAt || activity.startAt,
+        dto.endAt || activity.endAt,
+        dto.cfpOpenAt !== undefined ? dto.cfpOpenAt : activity.cfpOpenAt,
+        dto.cfpCloseAt !== undefined ? dto.cfpCloseAt : activity.cfpCloseAt,
+      );
     }
 
     // Check slug if it's being updated and different from current
@@ -107,7 +313,7 @@ export class ActivityService {
     if (dto.contents) {
       const supportedLanguages =
         dto.supportedLanguages || activity.supportedLanguages;
-      this.validateContentLanguages(dto.contents, supportedLanguages);
+      validateContentLanguages(dto.contents, supportedLanguages);
     }
 
     // Use transaction to ensure atomicity
@@ -120,17 +326,29 @@ export class ActivityService {
           ...(dto.slug && { slug: dto.slug }),
           ...(dto.startAt && { startAt: dto.startAt }),
           ...(dto.endAt && { endAt: dto.endAt }),
-          ...(dto.closedAt !== undefined && { closedAt: dto.closedAt }),
+          ...(dto.cfpOpenAt !== undefined && { cfpOpenAt: dto.cfpOpenAt }),
+          ...(dto.cfpCloseAt !== undefined && { cfpCloseAt: dto.cfpCloseAt }),
+          ...(dto.cfpGraceMinutes !== undefined && {
+            cfpGraceMinutes: dto.cfpGraceMinutes,
+          }),
+          ...(dto.openReview !== undefined && { openReview: dto.openReview }),
+          ...(dto.blindReview !== undefined && {
+            blindReview: dto.blindReview,
+          }),
+          ...(dto.confirmationDays && {
+            confirmationDays: dto.confirmationDays,
+          }),
           ...(dto.supportedLanguages && {
             supportedLanguages: dto.supportedLanguages,
           }),
         },
       });
 
+      // Content edits stay in the drafts until published
       if (dto.contents) {
         await Promise.all(
           dto.contents.map((content) =>
-            tx.activityContent.upsert({
+            tx.activityContentDraft.upsert({
               where: {
                 activityId_lang: {
                   activityId: id,
@@ -153,15 +371,346 @@ export class ActivityService {
       }
 
       // Return complete activity data
-      return tx.activity.findUnique({
-        where: { id },
-        include: { contents: true },
+      const updated = withActivityStatus(
+        await tx.activity.findUniqueOrThrow({
+          where: { id },
+          include: { contents: true, contentDrafts: true },
+        }),
+      );
+
+      await this.auditService.record(
+        {
+          action: "activity.update",
+          entityType: "activity",
+          entityId: id,
+          before: activity,
+          after: updated,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * Copy an activity and its configuration as a new, unpublished edition.
+   * Dates move by `offsetDays`, or by however far `startAt` moves the start.
+   * Proposals and everything that depends on them stay behind.
+   */
+  async clone(id: string, dto: CloneActivityDto) {
+    const source = await this.prisma.activity.findUnique({
+      where: { id },
+      include: {
+        contentDrafts: true,
+        questions: { include: { contents: true } },
+        criteria: true,
+        rooms: true,
+        timeSlots: true,
+        _count: {
+          select: {
+            submissions: true,
+            sessions: true,
+            memberRoles: true,
+            contentRevisions: true,
+          },
+        },
+      },
+    });
+    if (!source) throw new NotFoundException("Activity not found");
+
+    if ((dto.offsetDays === undefined) === (dto.startAt === undefined)) {
+      throw new BadRequestException(
+        "Provide either offsetDays or startAt to date the copy",
+      );
+    }
+    const offset =
+      dto.startAt !== undefined
+        ? dto.startAt.getTime() - source.startAt.getTime()
+        : dto.offsetDays! * 24 * 60 * 60 * 1000;
+    const shift = (date: Date) => new Date(date.getTime() + offset);
+    const shiftOptional = (date: Date | null) => (date ? shift(date) : null);
+
+    const startAt = shift(source.startAt);
+    const endAt = dto.endAt ?? shift(source.endAt);
+    const cfpOpenAt = shiftOptional(source.cfpOpenAt);
+    const cfpCloseAt = shiftOptional(source.cfpCloseAt);
+    this.validateDates(startAt, endAt, cfpOpenAt, cfpCloseAt);
+
+    await this.checkSlugExists(dto.slug);
+
+    return this.prisma.$transaction(async (tx) => {
+      const activity = await tx.activity.create({
+        data: withId({
+          name: dto.name ?? source.name,
+          slug: dto.slug,
+          startAt,
+          endAt,
+          cfpOpenAt,
+          cfpCloseAt,
+          cfpGraceMinutes: source.cfpGraceMinutes,
+          supportedLanguages: source.supportedLanguages,
+          openReview: source.openReview,
+          blindReview: source.blindReview,
+          confirmationDays: source.confirmationDays,
+          // The latest edits, published or not, become the new drafts
+          contentDrafts: {
+            create: source.contentDrafts.map((content) =>
+              withId({
+                lang: content.lang,
+                title: content.title,
+                description: content.description,
+              }),
+            ),
+          },
+          criteria: {
+            create: source.criteria.map((criterion) =>
+              withId({
+                position: criterion.position,
+                name: criterion.name,
+                description: criterion.description,
+                weight: criterion.weight,
+                minScore: criterion.minScore,
+                maxScore: criterion.maxScore,
+              }),
+            ),
+          },
+          rooms: {
+            create: source.rooms.map((room) =>
+              withId({
+                position: room.position,
+                name: room.name,
+                capacity: room.capacity,
+              }),
+            ),
+          },
+          timeSlots: {
+            create: source.timeSlots.map((slot) =>
+              withId({
+                startAt: shift(slot.startAt),
+                endAt: shift(slot.endAt),
+              }),
+            ),
+          },
+        }),
+        include: { contentDrafts: true },
+      });
+
+      // Nested contents rule out createMany on the parent
+      for (const question of source.questions) {
+        await tx.activityQuestion.create({
+          data: withId({
+            activityId: activity.id,
+            position: question.position,
+            type: question.type,
+            required: question.required,
+            minLength: question.minLength,
+            maxLength: question.maxLength,
+            minValue: question.minValue,
+            maxValue: question.maxValue,
+            options: question.options
+              ? (question.options as Prisma.InputJsonValue)
+              : Prisma.DbNull,
+            contents: {
+              create: question.contents.map((content) =>
+                withId({
+                  lang: content.lang,
+                  label: content.label,
+                  description: content.description,
+                }),
+              ),
+            },
+          }),
+        });
+      }
+
+      await this.auditService.record(
+        {
+          action: "activity.clone",
+          entityType: "activity",
+          entityId: activity.id,
+          after: activity,
+          metadata: { sourceId: source.id },
+        },
+        tx,
+      );
+
+      return {
+        activity: withActivityStatus(activity),
+        copied: {
+          contents: source.contentDrafts.length,
+          questions: source.questions.length,
+          criteria: source.criteria.length,
+          rooms: source.rooms.length,
+          timeSlots: source.timeSlots.length,
+        },
+        skipped: {
+          submissions: source._count.submissions,
+          scheduledSessions: source._count.sessions,
+          activityRoles: source._count.memberRoles,
+          contentRevisions: source._count.contentRevisions,
+        },
+      };
+    });
+  }
+
+  /**
+   * Keep a past edition read-only
+   */
+  async archive(id: string) {
+    const activity = await this.findOneById(id);
+    if (activity.deletedAt) {
+      throw new BadRequestException("Deleted activities cannot be archived");
+    }
+    if (activity.archivedAt) {
+      throw new ConflictException("Activity is already archived");
+    }
+
+    return this.changeState(id, "activity.archive", { archivedAt: new Date() });
+  }
+
+  /**
+   * Hide an activity everywhere; its slug stays reserved and its data is
+   * kept until purged
+   */
+  async softDelete(id: string) {
+    const activity = await this.findOneById(id);
+    if (activity.deletedAt) {
+      throw new ConflictException("Activity is already deleted");
+    }
+
+    return this.changeState(id, "activity.delete", { deletedAt: new Date() });
+  }
+
+  /**
+   * Bring an archived or deleted activity back. A released slug is taken
+   * back, or replaced by `dto.slug`.
+   */
+  async restore(id: string, dto: RestoreActivityDto) {
+    const activity = await this.findOneById(id);
+    if (!activity.deletedAt && !activity.archivedAt) {
+      throw new ConflictException("Activity is neither archived nor deleted");
+    }
+
+    const slug = dto.slug ?? activity.releasedSlug;
+    if (slug && slug !== activity.slug) {
+      await this.checkSlugExists(slug);
+    }
+
+    return this.changeState(id, "activity.restore", {
+      archivedAt: null,
+      deletedAt: null,
+      ...(slug && { slug, releasedSlug: null }),
+    });
+  }
+
+  /**
+   * Free the slug of a deleted activity for reuse; the activity's id
+   * stands in for it
+   */
+  async releaseSlug(id: string) {
+    const activity = await this.findOneById(id);
+    if (!activity.deletedAt) {
+      throw new BadRequestException(
+        "Only deleted activities can release their slug",
+      );
+    }
+    if (activity.releasedSlug) {
+      throw new ConflictException("Slug has already been released");
+    }
+
+    return this.changeState(id, "activity.slug.release", {
+      slug: activity.id,
+      releasedSlug: activity.slug,
+    });
+  }
+
+  /**
+   * Permanently remove a deleted activity and everything that belongs to
+   * it, once the retention period has passed
+   */
+  async purge(id: string) {
+    const activity = await this.findOneById(id);
+    const retentionEnd = activity.deletedAt
+      ? activity.deletedAt.getTime() +
+        ACTIVITY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+      : null;
+    if (!retentionEnd || retentionEnd > Date.now()) {
+      throw new BadRequestException(
+        `Only activities deleted more than ${ACTIVITY_RETENTION_DAYS} days ago can be purged`,
+      );
+    }
+
+    const uploads = await this.prisma.$transaction(async (tx) => {
+      // Slides go with their proposals; their files are removed afterwards
+      const slides = await tx.upload.findMany({
+        where: { submission: { activityId: id } },
+        select: { storageKey: true },
       });
+      await tx.activity.delete({ where: { id } });
+
+      await this.auditService.record(
+        {
+          action: "activity.purge",
+          entityType: "activity",
+          entityId: id,
+          before: activity,
+        },
+        tx,
+      );
+      return slides;
     });
+
+    await this.uploadService.discardFiles(uploads.map((u) => u.storageKey));
   }
 
   // ========== Private Methods (Validation Logic) ==========
 
+  private async changeState(
+    id: string,
+    action: string,
+    data: Prisma.ActivityUpdateInput,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const before = await tx.activity.findUniqueOrThrow({ where: { id } });
+      const after = await tx.activity.update({ where: { id }, data });
+
+      await this.auditService.record(
+        { action, entityType: "activity", entityId: id, before, after },
+        tx,
+      );
+
+      return withActivityStatus(after);
+    });
+  }
+
+  private preferredLanguages(lang?: string, acceptLanguage?: string) {
+    return [
+      ...(lang ? [lang.toLowerCase()] : []),
+      ...parseAcceptLanguage(acceptLanguage),
+    ];
+  }
+
+  /**
+   * Keep only the content best matching the preferred languages, falling
+   * back to the first supported language
+   */
+  private localize<
+    T extends {
+      supportedLanguages: string[];
+      contents: Array<{ lang: string }>;
+    },
+  >(activity: T, preferred: string[]): T {
+    const content = resolveContent(
+      activity.contents.filter((c) =>
+        activity.supportedLanguages.includes(c.lang),
+      ),
+      preferred,
+      activity.supportedLanguages,
+    );
+    return { ...activity, contents: content ? [content] : [] };
+  }
+
   /**
    * Filter the contents to only include items with languages present in supportedLanguages
    */
@@ -186,14 +735,25 @@ export class ActivityService {
   private validateDates(
     startAt: Date,
     endAt: Date,
-    closedAt?: Date | null,
+    cfpOpenAt: Date | null,
+    cfpCloseAt: Date | null,
   ): void {
     if (endAt <= startAt) {
       throw new BadRequestException("End date must be after start date");
     }
 
-    if (closedAt && closedAt >= startAt) {
-      throw new BadRequestException("Closed date must be before start date");
+    if (cfpOpenAt && cfpOpenAt >= startAt) {
+      throw new BadRequestException("CFP open date must be before start date");
+    }
+
+    if (cfpCloseAt && cfpCloseAt > startAt) {
+      throw new BadRequestException(
+        "CFP close date must not be after start date",
+      );
+    }
+
+    if (cfpOpenAt && cfpCloseAt && cfpCloseAt <= cfpOpenAt) {
+      throw new BadRequestException("CFP close date must be after open date");
     }
   }
 
@@ -211,37 +771,4 @@ export class ActivityService {
       );
     }
   }
-
-  /**
-   * Validate that all content languages are in supportedLanguages
-   */
-  private validateContentLanguages(
-    contents: ActivityContentDto[],
-    supportedLanguages: string[],
-  ): void {
-    const contentLangs = contents.map((c) => c.lang);
-    const unsupportedLangs = contentLangs.filter(
-      (lang) => !supportedLanguages.includes(lang),
-    );
-
-    console.log("supportedLanguages", supportedLanguages);
-    console.log("unsupportedLangs", unsupportedLangs);
-
-    if (unsupportedLangs.length > 0) {
-      throw new BadRequestException(
-        `Contents contain unsupported languages: ${unsupportedLangs.join(", ")}`,
-      );
-    }
-
-    // Check for duplicate languages
-    const duplicateLangs = contentLangs.filter(
-      (lang, index) => contentLangs.indexOf(lang) !== index,
-    );
-
-    if (duplicateLangs.length > 0) {
-      throw new BadRequestException(
-        `Duplicate languages in contents: ${duplicateLangs.join(", ")}`,
-      );
-    }
-  }
 }
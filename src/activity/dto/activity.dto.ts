@@ -1,4 +1,9 @@
-import { ApiProperty, ApiPropertyOptional, PartialType } from "@nestjs/swagger";
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  PartialType,
+  PickType,
+} from "@nestjs/swagger";
 import { Transform, Type } from "class-transformer";
 import {
   IsString,
@@ -9,10 +14,33 @@ import {
   IsLocale,
   IsOptional,
   IsDate,
+  IsBoolean,
+  IsInt,
+  Min,
+  Max,
   MaxLength,
   IsNotEmpty,
   ValidateNested,
 } from "class-validator";
+import { MAX_CFP_GRACE_MINUTES } from "../utils/activity-status.util";
+
+export enum PublicActivityFilter {
+  UPCOMING = "upcoming",
+  CFP_OPEN = "cfp_open",
+  PAST = "past",
+}
+
+export enum ActivityState {
+  ACTIVE = "active",
+  ARCHIVED = "archived",
+  DELETED = "deleted",
+}
+
+export enum ActivitySortField {
+  CREATED_AT = "createdAt",
+  START_AT = "startAt",
+  NAME = "name",
+}
 
 export class ActivityContentDto {
   @ApiProperty({ example: "zh-TW" })
@@ -89,10 +117,55 @@ export class CreateActivityDto {
   })
   supportedLanguages: string[];
 
-  @ApiPropertyOptional({ description: "Manual closure timestamp" })
+  @ApiPropertyOptional({
+    description: "When the CFP opens; open right away when omitted",
+  })
   @IsOptional()
   @Type(() => Date)
-  closedAt?: Date;
+  @IsDate()
+  cfpOpenAt?: Date | null;
+
+  @ApiPropertyOptional({
+    description: "When the CFP closes; open until the event when omitted",
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  cfpCloseAt?: Date | null;
+
+  @ApiPropertyOptional({
+    example: 60,
+    description: "Minutes after the CFP closes that edits are still accepted",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_CFP_GRACE_MINUTES)
+  cfpGraceMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: "Let any reviewer review any proposal without assignment",
+  })
+  @IsOptional()
+  @IsBoolean()
+  openReview?: boolean;
+
+  @ApiPropertyOptional({
+    description: "Hide speaker identity from reviewers",
+  })
+  @IsOptional()
+  @IsBoolean()
+  blindReview?: boolean;
+
+  @ApiPropertyOptional({
+    example: 14,
+    description: "Days accepted speakers have to confirm their talk",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  confirmationDays?: number;
 
   @ApiProperty({ type: [ActivityContentDto] })
   @IsArray()
@@ -102,3 +175,39 @@ export class CreateActivityDto {
 }
 
 export class UpdateActivityDto extends PartialType(CreateActivityDto) {}
+
+export class CloneActivityDto extends PickType(CreateActivityDto, ["slug"]) {
+  @ApiPropertyOptional({ description: "Defaults to the source activity's" })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({
+    example: 365,
+    description: "Days to shift every date by; alternative to startAt",
+  })
+  @IsOptional()
+  @IsInt()
+  offsetDays?: number;
+
+  @ApiPropertyOptional({
+    description: "New start; the other dates move along with it",
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startAt?: Date;
+
+  @ApiPropertyOptional({
+    description: "New end; defaults to keeping the source's duration",
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endAt?: Date;
+}
+
+export class RestoreActivityDto extends PartialType(
+  PickType(CreateActivityDto, ["slug"]),
+) {}
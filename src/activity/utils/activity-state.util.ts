@@ -0,0 +1,22 @@
+import { BadRequestException } from "@nestjs/common";
+
+export interface ActivityState {
+  archivedAt: Date | null;
+  deletedAt: Date | null;
+}
+
+export const activityStateSelect = {
+  archivedAt: true,
+  deletedAt: true,
+} as const;
+
+/**
+ * Archived and deleted activities are read-only until restored
+ */
+export const assertActivityEditable = (activity: ActivityState): void => {
+  if (activity.deletedAt || activity.archivedAt) {
+    throw new BadRequestException(
+      "Archived or deleted activities must be restored before editing",
+    );
+  }
+};
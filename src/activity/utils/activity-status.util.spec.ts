@@ -0,0 +1,68 @@
+import {
+  ActivityStatus,
+  ActivityTimeline,
+  computeActivityStatus,
+  withActivityStatus,
+} from "./activity-status.util";
+
+const timeline: ActivityTimeline = {
+  cfpOpenAt: new Date("2026-09-01T00:00:00Z"),
+  cfpCloseAt: new Date("2026-10-01T00:00:00Z"),
+  cfpGraceMinutes: 60,
+  startAt: new Date("2026-11-01T09:00:00Z"),
+  endAt: new Date("2026-11-02T18:00:00Z"),
+};
+
+const statusAt = (now: string, overrides: Partial<ActivityTimeline> = {}) =>
+  computeActivityStatus({ ...timeline, ...overrides }, new Date(now));
+
+describe("computeActivityStatus", () => {
+  it("should be upcoming before the CFP opens", () => {
+    expect(statusAt("2026-08-31T23:59:59Z")).toBe(ActivityStatus.UPCOMING);
+  });
+
+  it("should be open from the CFP opening", () => {
+    expect(statusAt("2026-09-01T00:00:00Z")).toBe(ActivityStatus.CFP_OPEN);
+  });
+
+  it("should stay open through the grace period", () => {
+    expect(statusAt("2026-10-01T00:59:59Z")).toBe(ActivityStatus.CFP_OPEN);
+  });
+
+  it("should close once the grace period ends", () => {
+    expect(statusAt("2026-10-01T01:00:00Z")).toBe(ActivityStatus.CFP_CLOSED);
+  });
+
+  it("should close at the deadline without a grace period", () => {
+    expect(statusAt("2026-10-01T00:00:00Z", { cfpGraceMinutes: 0 })).toBe(
+      ActivityStatus.CFP_CLOSED,
+    );
+  });
+
+  it("should be ongoing during the event, even with an open CFP", () => {
+    expect(statusAt("2026-11-01T09:00:00Z")).toBe(ActivityStatus.ONGOING);
+    expect(statusAt("2026-11-01T12:00:00Z", { cfpCloseAt: null })).toBe(
+      ActivityStatus.ONGOING,
+    );
+  });
+
+  it("should be finished once the event ends", () => {
+    expect(statusAt("2026-11-02T18:00:00Z")).toBe(ActivityStatus.FINISHED);
+  });
+
+  it("should keep the CFP open until the event without CFP dates", () => {
+    expect(
+      statusAt("2026-01-01T00:00:00Z", { cfpOpenAt: null, cfpCloseAt: null }),
+    ).toBe(ActivityStatus.CFP_OPEN);
+  });
+});
+
+describe("withActivityStatus", () => {
+  it("should add the status and keep the other fields", () => {
+    const activity = { ...timeline, slug: "conf-2026" };
+
+    expect(
+      withActivityStatus(activity, new Date("2026-09-15T00:00:00Z")),
+    ).toEqual({ ...activity, status: ActivityStatus.CFP_OPEN });
+  });
+});
@@ -0,0 +1,51 @@
+export enum ActivityStatus {
+  UPCOMING = "upcoming",
+  CFP_OPEN = "cfp_open",
+  CFP_CLOSED = "cfp_closed",
+  ONGOING = "ongoing",
+  FINISHED = "finished",
+}
+
+// Longest grace period an activity may give after its CFP closes
+export const MAX_CFP_GRACE_MINUTES = 7 * 24 * 60;
+
+export interface ActivityTimeline {
+  startAt: Date;
+  endAt: Date;
+  cfpOpenAt: Date | null;
+  cfpCloseAt: Date | null;
+  cfpGraceMinutes: number;
+}
+
+/**
+ * Where an activity is in its lifecycle. The CFP counts as open through the
+ * grace period, and is always over once the event starts.
+ */
+export const computeActivityStatus = (
+  activity: ActivityTimeline,
+  now: Date = new Date(),
+): ActivityStatus => {
+  if (now >= activity.endAt) return ActivityStatus.FINISHED;
+  if (now >= activity.startAt) return ActivityStatus.ONGOING;
+  if (activity.cfpOpenAt && now < activity.cfpOpenAt) {
+    return ActivityStatus.UPCOMING;
+  }
+
+  if (activity.cfpCloseAt) {
+    const deadline =
+      activity.cfpCloseAt.getTime() + activity.cfpGraceMinutes * 60 * 1000;
+    if (now.getTime() >= deadline) return ActivityStatus.CFP_CLOSED;
+  }
+  return ActivityStatus.CFP_OPEN;
+};
+
+/**
+ * Add the computed status to an activity
+ */
+export const withActivityStatus = <T extends ActivityTimeline>(
+  activity: T,
+  now: Date = new Date(),
+): T & { status: ActivityStatus } => ({
+  ...activity,
+  status: computeActivityStatus(activity, now),
+});
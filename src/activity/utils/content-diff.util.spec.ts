@@ -0,0 +1,76 @@
+import {
+  ContentSnapshot,
+  diffContents,
+  sameContents,
+} from "./content-diff.util";
+
+const content = (
+  lang: string,
+  title: string,
+  description: string | null = null,
+): ContentSnapshot => ({ lang, title, description });
+
+describe("diffContents", () => {
+  it("should report added languages", () => {
+    expect(
+      diffContents(
+        [content("en", "Conf")],
+        [content("en", "Conf"), content("ja", "会議")],
+      ),
+    ).toEqual({ added: [content("ja", "会議")], removed: [], changed: [] });
+  });
+
+  it("should report removed languages", () => {
+    expect(
+      diffContents(
+        [content("en", "Conf"), content("ja", "会議")],
+        [content("en", "Conf")],
+      ),
+    ).toEqual({ added: [], removed: [content("ja", "会議")], changed: [] });
+  });
+
+  it("should report changed fields per language", () => {
+    expect(
+      diffContents(
+        [content("en", "Conf", "Old")],
+        [content("en", "Conf 2026", "Old")],
+      ),
+    ).toEqual({
+      added: [],
+      removed: [],
+      changed: [
+        {
+          lang: "en",
+          changes: { title: { before: "Conf", after: "Conf 2026" } },
+        },
+      ],
+    });
+  });
+
+  it("should report a cleared description", () => {
+    expect(
+      diffContents([content("en", "Conf", "Text")], [content("en", "Conf")])
+        .changed,
+    ).toEqual([
+      { lang: "en", changes: { description: { before: "Text", after: null } } },
+    ]);
+  });
+});
+
+describe("sameContents", () => {
+  it("should ignore the order of languages", () => {
+    expect(
+      sameContents(
+        [content("en", "Conf"), content("ja", "会議")],
+        [content("ja", "会議"), content("en", "Conf")],
+      ),
+    ).toBe(true);
+  });
+
+  it("should notice any difference", () => {
+    expect(
+      sameContents([content("en", "Conf")], [content("en", "Conf!")]),
+    ).toBe(false);
+    expect(sameContents([content("en", "Conf")], [])).toBe(false);
+  });
+});
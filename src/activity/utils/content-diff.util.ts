@@ -0,0 +1,53 @@
+import { diffRecords, FieldChanges } from "../../audit/utils/diff.util";
+
+export interface ContentSnapshot {
+  lang: string;
+  title: string;
+  description: string | null;
+}
+
+export interface ContentDiff {
+  added: ContentSnapshot[];
+  removed: ContentSnapshot[];
+  changed: Array<{ lang: string; changes: FieldChanges }>;
+}
+
+/**
+ * Per-language difference between two versions of an activity's contents
+ */
+export const diffContents = (
+  before: ContentSnapshot[],
+  after: ContentSnapshot[],
+): ContentDiff => {
+  const beforeByLang = new Map(before.map((c) => [c.lang, c]));
+  const afterByLang = new Map(after.map((c) => [c.lang, c]));
+
+  const diff: ContentDiff = { added: [], removed: [], changed: [] };
+  for (const content of after) {
+    const previous = beforeByLang.get(content.lang);
+    if (!previous) {
+      diff.added.push(content);
+      continue;
+    }
+    const changes = diffRecords({ ...previous }, { ...content });
+    if (changes) diff.changed.push({ lang: content.lang, changes });
+  }
+  diff.removed = before.filter((c) => !afterByLang.has(c.lang));
+
+  return diff;
+};
+
+/**
+ * Whether two versions hold the same contents, regardless of order
+ */
+export const sameContents = (
+  a: ContentSnapshot[],
+  b: ContentSnapshot[],
+): boolean => {
+  const diff = diffContents(a, b);
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  );
+};
@@ -4,7 +4,17 @@ import { AppService } from "./app.service";
 import { PrismaModule } from "src/prisma/prisma.module";
 import { AuthModule } from "./auth/auth.module";
 import { ActivityModule } from "./activity/activity.module";
+import { SubmissionModule } from "./submission/submission.module";
+import { QuestionModule } from "./question/question.module";
+import { ReviewModule } from "./review/review.module";
+import { NotificationModule } from "./notification/notification.module";
+import { ScheduleModule } from "./schedule/schedule.module";
+import { MemberModule } from "./member/member.module";
+import { RoleModule } from "./role/role.module";
+import { AuditModule } from "./audit/audit.module";
+import { UploadModule } from "./upload/upload.module";
 import { ConfigModule } from "@nestjs/config";
+import { ScheduleModule as TaskScheduleModule } from "@nestjs/schedule";
 
 @Module({
   imports: [
@@ -12,9 +22,19 @@ import { ConfigModule } from "@nestjs/config";
       isGlobal: true,
       envFilePath: ".env",
     }),
+    TaskScheduleModule.forRoot(),
     PrismaModule,
+    AuditModule,
     AuthModule,
     ActivityModule,
+    SubmissionModule,
+    QuestionModule,
+    ReviewModule,
+    NotificationModule,
+    ScheduleModule,
+    MemberModule,
+    RoleModule,
+    UploadModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,13 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+
+// The request being handled, so audit entries can name the actor, IP and
+// user agent without every service passing them along
+export const auditContext: AsyncLocalStorage<Request> =
+  new AsyncLocalStorage<Request>();
+
+export const auditContextMiddleware = (
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) => auditContext.run(req, next);
@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Query,
+  ParseUUIDPipe,
+  ParseDatePipe,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from "@nestjs/common";
+import { ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { AuditService } from "./audit.service";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+
+// Read-only on purpose: entries cannot be changed or deleted through the API
+@ApiTags("Audit")
+@Controller("audit-logs")
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Permissions("audit:read")
+  @Get()
+  @ApiOperation({ summary: "Search the audit log, newest first" })
+  @ApiQuery({
+    name: "actorId",
+    required: false,
+    description: "Member who performed the action",
+  })
+  @ApiQuery({ name: "entityType", required: false, example: "activity" })
+  @ApiQuery({ name: "entityId", required: false })
+  @ApiQuery({ name: "action", required: false, example: "activity.update" })
+  @ApiQuery({
+    name: "from",
+    required: false,
+    description: "Inclusive lower bound (ISO 8601)",
+  })
+  @ApiQuery({
+    name: "to",
+    required: false,
+    description: "Exclusive upper bound (ISO 8601)",
+  })
+  @ApiQuery({ name: "page", required: false, example: 1 })
+  @ApiQuery({ name: "limit", required: false, example: 50 })
+  async findAll(
+    @Query("actorId", new ParseUUIDPipe({ optional: true })) actorId?: string,
+    @Query("entityType") entityType?: string,
+    @Query("entityId") entityId?: string,
+    @Query("action") action?: string,
+    @Query("from", new ParseDatePipe({ optional: true })) from?: Date,
+    @Query("to", new ParseDatePipe({ optional: true })) to?: Date,
+    @Query("page", new DefaultValuePipe(1), ParseIntPipe) page = 1,
+    @Query("limit", new DefaultValuePipe(50), ParseIntPipe) limit = 50,
+  ) {
+    return this.auditService.findAll({
+      actorId,
+      entityType,
+      entityId,
+      action,
+      from,
+      to,
+      page: Math.max(page, 1),
+      limit: Math.min(Math.max(limit, 1), 200),
+    });
+  }
+}
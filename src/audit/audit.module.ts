@@ -0,0 +1,12 @@
+import { Global, Module } from "@nestjs/common";
+import { AuditController } from "./audit.controller";
+import { AuditService } from "./audit.service";
+
+// Global so any module can record its mutations
+@Global()
+@Module({
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,91 @@
+import { Injectable } from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { withId } from "src/common/utils/db.util";
+import { Prisma } from "../../generated/prisma/client";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+import { auditContext } from "./audit-context";
+import { diffRecords } from "./utils/diff.util";
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  // snapshots the stored diff is computed from
+  before?: object | null;
+  after?: object | null;
+  metadata?: Prisma.InputJsonValue;
+  // defaults to the member making the current request
+  actorId?: string | null;
+}
+
+export interface AuditQuery {
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+@Injectable()
+export class AuditService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Append an entry. Pass the transaction client of the audited change so
+   * the entry is only kept if that change commits.
+   */
+  async record(
+    entry: AuditEntry,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const request = auditContext.getStore();
+    const user = request?.user as AuthUser | undefined;
+    const changes = diffRecords(
+      (entry.before as Record<string, unknown> | null) ?? null,
+      (entry.after as Record<string, unknown> | null) ?? null,
+    );
+
+    await client.auditLog.create({
+      data: withId({
+        actorId: entry.actorId !== undefined ? entry.actorId : user?.id,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        changes: (changes as Prisma.InputJsonValue | null) ?? Prisma.DbNull,
+        metadata: entry.metadata,
+        ip: request?.ip?.slice(0, 64),
+        userAgent: request?.headers["user-agent"]?.slice(0, 500),
+      }),
+    });
+  }
+
+  async findAll(query: AuditQuery) {
+    const where: Prisma.AuditLogWhereInput = {
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.entityType && { entityType: query.entityType }),
+      ...(query.entityId && { entityId: query.entityId }),
+      ...(query.action && { action: query.action }),
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lt: query.to }),
+        },
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { items, total, page: query.page, limit: query.limit };
+  }
+}
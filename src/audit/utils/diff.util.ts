@@ -0,0 +1,34 @@
+export type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Dates and nested values compare by their JSON form
+const normalize = (value: unknown): unknown =>
+  value === undefined ? null : (JSON.parse(JSON.stringify(value)) as unknown);
+
+/**
+ * Field-by-field difference between two snapshots of a record. A missing
+ * snapshot (creation or deletion) reports every field of the other one.
+ * Returns null when nothing changed.
+ */
+export const diffRecords = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  ignore: string[] = ["createdAt", "updatedAt"],
+): FieldChanges | null => {
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  const changes: FieldChanges = {};
+  for (const key of keys) {
+    if (ignore.includes(key)) continue;
+
+    const from = normalize(before?.[key]);
+    const to = normalize(after?.[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { before: from, after: to };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
@@ -1,87 +1,368 @@
-import { Controller, Get, Query, Res, Req, Post, Body } from "@nestjs/common";
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  Req,
+  Post,
+  Body,
+  Logger,
+  HttpCode,
+  Param,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse } from "@nestjs/swagger";
 import { AuthService } from "./auth.service";
 import type { Response, Request } from "express";
-import { generateState } from "arctic";
+import { generateCodeVerifier, generateState } from "arctic";
+import { JwtService } from "@nestjs/jwt";
 import { Public } from "./decorators/public.decorator";
+import { InvitationService } from "../submission/invitation.service";
+import {
+  ACCESS_TOKEN_TTL_MS,
+  REFRESH_TOKEN_TTL_MS,
+  SessionService,
+  SessionTokens,
+} from "./session.service";
+import { RefreshTokenDto } from "./dto/session.dto";
+import {
+  RequestEmailLoginDto,
+  VerifyEmailLoginDto,
+} from "./dto/email-login.dto";
+import { EmailLoginService } from "./email-login.service";
+import { CurrentUser } from "./decorators/current-user.decorator";
+import type { AuthUser } from "./strategies/jwt.strategy";
+
+interface LinkTokenPayload {
+  sub: string;
+  provider: string;
+  purpose: "link";
+}
+
+// Cookies that carry an OAuth flow from its start to the callback
+const OAUTH_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  maxAge: 600000,
+  path: "/",
+};
 
 @Controller("auth")
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  private readonly logger = new Logger(AuthController.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly invitationService: InvitationService,
+    private readonly sessionService: SessionService,
+    private readonly jwtService: JwtService,
+    private readonly emailLoginService: EmailLoginService,
+  ) {}
 
   @Public()
-  @Get("github")
-  githubLogin(@Res() res: Response) {
-    const state = generateState();
-    const url = this.authService.createGithubAuthUrl(state);
+  @Get(":provider")
+  @ApiOperation({ summary: "Start logging in with a provider" })
+  @ApiResponse({ status: 404, description: "Unknown login provider" })
+  login(
+    @Param("provider") provider: string,
+    @Res() res: Response,
+    @Query("invitation") invitation?: string,
+  ) {
+    // Co-speaker invitation to redeem once the login completes
+    if (invitation) {
+      res.cookie("invitation_token", invitation, OAUTH_COOKIE_OPTIONS);
+    }
 
-    res.cookie("github_oauth_state", state, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      maxAge: 600000,
-      path: "/",
-    });
+    return this.redirectToProvider(res, provider);
+  }
 
-    return res.redirect(url.toString());
+  @Get(":provider/link")
+  @ApiOperation({ summary: "Start linking a provider to my account" })
+  @ApiResponse({ status: 404, description: "Unknown login provider" })
+  async link(
+    @CurrentUser() user: AuthUser,
+    @Param("provider") provider: string,
+    @Res() res: Response,
+  ) {
+    // The callback is public, so carry the member in a short-lived signed token
+    const linkToken = await this.jwtService.signAsync(
+      { sub: user.id, provider, purpose: "link" },
+      { expiresIn: OAUTH_COOKIE_OPTIONS.maxAge / 1000 },
+    );
+    res.cookie("oauth_link", linkToken, OAUTH_COOKIE_OPTIONS);
+
+    return this.redirectToProvider(res, provider);
   }
 
   @Public()
-  @Get("github/callback")
-  async githubCallback(
+  @Get(":provider/callback")
+  async callback(
+    @Param("provider") provider: string,
     @Query("code") code: string,
     @Query("state") state: string,
     @Req() req: Request,
     @Res() res: Response,
   ) {
-    const clientUrl = process.env.CLIENT_URL || "http://localhost:3000";
-    const storedState = req.cookies["github_oauth_state"] as string | undefined;
+    const storedState = req.cookies["oauth_state"] as string | undefined;
+    const codeVerifier = req.cookies["oauth_code_verifier"] as
+      | string
+      | undefined;
+    const linkToken = req.cookies["oauth_link"] as string | undefined;
+    const invitationToken = req.cookies["invitation_token"] as
+      | string
+      | undefined;
 
-    if (!state || !storedState || state !== storedState) {
+    for (const name of [
+      "oauth_state",
+      "oauth_code_verifier",
+      "oauth_link",
+      "invitation_token",
+    ]) {
+      res.clearCookie(name, { path: "/" });
+    }
+
+    if (!state || !storedState || state !== storedState || !codeVerifier) {
       return res.status(400).send("Invalid state");
     }
 
-    res.clearCookie("github_oauth_state");
+    if (linkToken) {
+      return this.completeLink(res, provider, code, codeVerifier, linkToken);
+    }
 
     try {
-      const { access_token } = await this.authService.loginWithGithub(code);
-
-      res.cookie("access_token", access_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 86400000,
-        path: "/",
-      });
+      const { memberId, ...tokens } = await this.authService.loginWithProvider(
+        provider,
+        code,
+        codeVerifier,
+        req.headers["user-agent"],
+      );
 
-      return res.send(`
-        <html>
-          <body>
-            <script>
-              window.opener.postMessage({ type: 'AUTH_SUCCESS' }, '${clientUrl}');
-              window.close();
-            </script>
-            <p>Login successful, redirecting...</p>
-          </body>
-        </html>
-      `);
-    } catch (error: unknown) {
-      let message = "unexpected error";
-
-      if (error instanceof Error) {
-        message = error.message;
+      let invitation: "accepted" | "failed" | undefined;
+      if (invitationToken) {
+        try {
+          await this.invitationService.accept(memberId, invitationToken);
+          invitation = "accepted";
+        } catch (error: unknown) {
+          // The login itself succeeded; report the invitation separately
+          this.logger.warn(
+            `Invitation not accepted: ${error instanceof Error ? error.message : "unknown error"}`,
+          );
+          invitation = "failed";
+        }
       }
 
-      return res.send(`
-        <script>
-          window.opener.postMessage({ type: 'AUTH_ERROR', message: '${JSON.stringify(message)}' }, '${clientUrl}');
-          window.close();
-        </script>
-      `);
+      this.setSessionCookies(res, tokens);
+
+      return this.sendPopupResult(res, {
+        type: "AUTH_SUCCESS",
+        invitation: invitation ?? null,
+      });
+    } catch (error: unknown) {
+      return this.sendPopupResult(res, {
+        type: "AUTH_ERROR",
+        message: error instanceof Error ? error.message : "unexpected error",
+      });
     }
   }
 
+  @Public()
+  @Post("email")
+  @HttpCode(202)
+  @ApiOperation({ summary: "Email a single-use sign-in link" })
+  @ApiResponse({
+    status: 429,
+    description: "Too many requests for the address",
+  })
+  async requestEmailLogin(
+    @Req() req: Request,
+    @Body() dto: RequestEmailLoginDto,
+  ) {
+    await this.emailLoginService.request(dto.email, {
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    return { message: "Check your inbox for a sign-in link" };
+  }
+
+  @Public()
+  @Post("email/verify")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Sign in with the token from an emailed link" })
+  @ApiResponse({ status: 401, description: "Invalid, used or expired link" })
+  async verifyEmailLogin(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Body() dto: VerifyEmailLoginDto,
+  ) {
+    const { memberId, ...tokens } = await this.emailLoginService.verify(
+      dto.token,
+      { ip: req.ip, userAgent: req.headers["user-agent"] },
+    );
+    this.setSessionCookies(res, tokens);
+
+    return { access_token: tokens.access_token, memberId };
+  }
+
   @Public()
   @Post("dev-login")
   async devLogin(@Body() body: { email: string }) {
     return this.authService.devLogin(body.email);
   }
+
+  @Public()
+  @Post("refresh")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Exchange a refresh token for a new token pair",
+    description:
+      "The refresh token is read from the refresh_token cookie or the body and is single-use. Presenting a used token ends the whole session.",
+  })
+  @ApiResponse({ status: 401, description: "Invalid or reused refresh token" })
+  async refresh(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Body() dto: RefreshTokenDto,
+  ) {
+    const refreshToken =
+      dto.refreshToken ?? (req.cookies["refresh_token"] as string | undefined);
+    if (!refreshToken) {
+      throw new UnauthorizedException("Missing refresh token");
+    }
+
+    try {
+      const tokens = await this.sessionService.refresh(
+        refreshToken,
+        req.headers["user-agent"],
+      );
+      this.setSessionCookies(res, tokens);
+
+      // Cookie clients never see the refresh token itself
+      return dto.refreshToken ? tokens : { access_token: tokens.access_token };
+    } catch (error: unknown) {
+      this.clearSessionCookies(res);
+      throw error;
+    }
+  }
+
+  @Public()
+  @Post("logout")
+  @HttpCode(204)
+  @ApiOperation({ summary: "End the current session" })
+  async logout(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Body() dto: RefreshTokenDto,
+  ) {
+    const refreshToken =
+      dto.refreshToken ?? (req.cookies["refresh_token"] as string | undefined);
+    if (refreshToken) await this.sessionService.logout(refreshToken);
+    this.clearSessionCookies(res);
+  }
+
+  @Post("logout-all")
+  @HttpCode(204)
+  @ApiOperation({ summary: "End every session of the current member" })
+  async logoutEverywhere(
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    await this.sessionService.logoutEverywhere(user.id);
+    this.clearSessionCookies(res);
+  }
+
+  // ========== Private Methods ==========
+
+  private redirectToProvider(res: Response, provider: string) {
+    const state = generateState();
+    const codeVerifier = generateCodeVerifier();
+    const url = this.authService.createAuthorizationUrl(
+      provider,
+      state,
+      codeVerifier,
+    );
+
+    res.cookie("oauth_state", state, OAUTH_COOKIE_OPTIONS);
+    res.cookie("oauth_code_verifier", codeVerifier, OAUTH_COOKIE_OPTIONS);
+
+    return res.redirect(url.toString());
+  }
+
+  private async completeLink(
+    res: Response,
+    provider: string,
+    code: string,
+    codeVerifier: string,
+    linkToken: string,
+  ) {
+    try {
+      const link = await this.jwtService
+        .verifyAsync<LinkTokenPayload>(linkToken)
+        .catch(() => null);
+      if (link?.purpose !== "link" || link.provider !== provider) {
+        throw new UnauthorizedException("Link request expired; start again");
+      }
+
+      const linked = await this.authService.linkProvider(
+        link.sub,
+        provider,
+        code,
+        codeVerifier,
+      );
+
+      return this.sendPopupResult(res, {
+        type: "LINK_SUCCESS",
+        provider: linked.provider,
+      });
+    } catch (error: unknown) {
+      return this.sendPopupResult(res, {
+        type: "LINK_ERROR",
+        message: error instanceof Error ? error.message : "unexpected error",
+      });
+    }
+  }
+
+  /**
+   * Hand the outcome of a login popup back to the client window
+   */
+  private sendPopupResult(res: Response, message: Record<string, unknown>) {
+    const clientUrl = process.env.CLIENT_URL || "http://localhost:3000";
+    // Keep the JSON from closing the script element
+    const json = (value: unknown) =>
+      JSON.stringify(value).replace(/</g, "\\u003c");
+
+    return res.send(`
+      <html>
+        <body>
+          <script>
+            window.opener.postMessage(${json(message)}, ${json(clientUrl)});
+            window.close();
+          </script>
+          <p>You can close this window.</p>
+        </body>
+      </html>
+    `);
+  }
+
+  private setSessionCookies(res: Response, tokens: SessionTokens) {
+    const options = {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax" as const,
+      path: "/",
+    };
+    res.cookie("access_token", tokens.access_token, {
+      ...options,
+      maxAge: ACCESS_TOKEN_TTL_MS,
+    });
+    res.cookie("refresh_token", tokens.refresh_token, {
+      ...options,
+      maxAge: REFRESH_TOKEN_TTL_MS,
+    });
+  }
+
+  private clearSessionCookies(res: Response) {
+    res.clearCookie("access_token", { path: "/" });
+    res.clearCookie("refresh_token", { path: "/" });
+  }
 }
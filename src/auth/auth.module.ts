@@ -1,23 +1,38 @@
 import { Module } from "@nestjs/common";
 import { AuthService } from "./auth.service";
+import { EmailLoginService } from "./email-login.service";
+import { OAuthProviderRegistry } from "./providers/oauth-provider.registry";
+import { ACCESS_TOKEN_TTL_MS, SessionService } from "./session.service";
 import { AuthController } from "./auth.controller";
 import { JwtModule } from "@nestjs/jwt";
 import { PassportModule } from "@nestjs/passport";
 import { JwtStrategy } from "./strategies/jwt.strategy";
 import { JwtAuthGuard } from "./guards/jwt-auth.guard";
 import { PermissionGuard } from "./guards/permission.guard";
+import { SubmissionModule } from "../submission/submission.module";
+import { NotificationModule } from "../notification/notification.module";
 
 @Module({
   imports: [
     PassportModule,
+    SubmissionModule,
+    NotificationModule,
     JwtModule.register({
       global: true,
       secret: process.env.JWT_SECRET || "fallback-secret",
-      signOptions: { expiresIn: "15m" },
+      signOptions: { expiresIn: ACCESS_TOKEN_TTL_MS / 1000 },
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtAuthGuard, PermissionGuard],
+  providers: [
+    AuthService,
+    SessionService,
+    EmailLoginService,
+    OAuthProviderRegistry,
+    JwtStrategy,
+    JwtAuthGuard,
+    PermissionGuard,
+  ],
   exports: [AuthService, JwtAuthGuard, PermissionGuard],
 })
 export class AuthModule {}
@@ -1,65 +1,91 @@
-import { Injectable, Logger, UnauthorizedException } from "@nestjs/common";
-import { GitHub } from "arctic";
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
-import { JwtService } from "@nestjs/jwt";
 import { withId } from "src/common/utils/db.util";
-
-interface GithubProfile {
-  id: number;
-  login: string;
-  name: string | null;
-  email: string | null;
-  avatar_url: string;
-  company: string | null;
-  bio: string | null;
-  html_url: string;
-  location: string | null;
-}
-
-interface GithubSocial {
-  provider: string;
-  url: string;
-}
-
-interface JwtPayload {
-  sub: string;
-  email: string;
-  permissions: string[];
-}
+import { NotificationService } from "../notification/notification.service";
+import { SessionService } from "./session.service";
+import { AuditService } from "../audit/audit.service";
+import { OAuthProviderRegistry } from "./providers/oauth-provider.registry";
+import { OAuthProfile } from "./providers/oauth-provider";
+import { MemberStatus, Prisma } from "../../generated/prisma/client";
 
 @Injectable()
 export class AuthService {
-  private github: GitHub;
   private readonly logger = new Logger(AuthService.name);
 
   constructor(
     private prisma: PrismaService,
-    private jwtService: JwtService,
+    private sessionService: SessionService,
+    private notificationService: NotificationService,
+    private providers: OAuthProviderRegistry,
+    private auditService: AuditService,
+  ) {}
+
+  createAuthorizationUrl(
+    providerName: string,
+    state: string,
+    codeVerifier: string,
   ) {
-    this.github = new GitHub(
-      process.env.GITHUB_CLIENT_ID!,
-      process.env.GITHUB_CLIENT_SECRET!,
-      process.env.GITHUB_REDIRECT_URI!,
-    );
+    return this.providers
+      .get(providerName)
+      .createAuthorizationUrl(state, codeVerifier);
   }
 
-  createGithubAuthUrl(state: string) {
-    return this.github.createAuthorizationURL(state, ["user:email"]);
+  private assertNotBanned(member: { status: MemberStatus }): void {
+    if (member.status === MemberStatus.BANNED) {
+      throw new UnauthorizedException("This account has been banned");
+    }
   }
 
-  private async fetchGithub<T>(endpoint: string, token: string): Promise<T> {
-    const response = await fetch(`https://api.github.com/${endpoint}`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "User-Agent": "NestJS-Auth-App",
-        Accept: "application/vnd.github+json",
-      },
+  /**
+   * Create a member and queue their welcome email in the same transaction
+   */
+  private async createMember(data: Omit<Prisma.MemberCreateInput, "id">) {
+    return this.prisma.$transaction(async (tx) => {
+      const member = await tx.member.create({
+        data: withId(data),
+        include: { providers: true },
+      });
+
+      await this.notificationService.enqueue(tx, {
+        to: member.email,
+        template: "welcome",
+        lang: member.preferredLanguage,
+        data: { displayName: member.displayName ?? member.email },
+      });
+
+      return member;
     });
+  }
+
+  /**
+   * Exchange the authorization code for the provider profile; provider and
+   * network errors surface as 401
+   */
+  private async fetchProfile(
+    providerName: string,
+    code: string,
+    codeVerifier: string,
+  ): Promise<OAuthProfile> {
+    const provider = this.providers.get(providerName);
+    try {
+      return await provider.fetchProfile(code, codeVerifier);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+
+      this.logger.error(
+        `${provider.name} login error: ${message}`,
+        error instanceof Error ? error.stack : undefined,
+      );
 
-    if (!response.ok) {
-      throw new Error(`GitHub API error: ${response.statusText}`);
+      throw new UnauthorizedException(
+        `${provider.name} authentication failed: ${message}`,
+      );
     }
-    return response.json() as T;
   }
 
   private async getUserPermissions(memberId: string): Promise<string[]> {
@@ -68,8 +94,9 @@ export class AuthService {
     const rolePermissions = await this.prisma.rolePermission.findMany({
       where: {
         role: {
+          // Activity-scoped roles are resolved per request by PermissionGuard
           members: {
-            some: { memberId },
+            some: { memberId, activityId: null },
           },
         },
       },
@@ -85,109 +112,177 @@ export class AuthService {
     return Array.from(permissions);
   }
 
-  async loginWithGithub(code: string) {
-    try {
-      const provider = "github";
-      const tokens = await this.github.validateAuthorizationCode(code);
-      const accessToken = tokens.accessToken();
-
-      const [githubUser, githubEmails, socialAccounts] = await Promise.all([
-        this.fetchGithub<GithubProfile>("user", accessToken),
-        this.fetchGithub<{ email: string; primary: boolean }[]>(
-          "user/emails",
-          accessToken,
-        ),
-        this.fetchGithub<GithubSocial[]>("user/social_accounts", accessToken),
-      ]);
-
-      const email =
-        githubUser.email || githubEmails.find((e) => e.primary)?.email;
-
-      if (!email) {
-        throw new UnauthorizedException(
-          "Unable to obtain a valid email address from GitHub",
+  /**
+   * Log in with a provider account. Unknown accounts become new members;
+   * an account is never attached to an existing member because the emails
+   * match, that only happens through linkProvider.
+   */
+  async loginWithProvider(
+    providerName: string,
+    code: string,
+    codeVerifier: string,
+    userAgent?: string,
+  ) {
+    const profile = await this.fetchProfile(providerName, code, codeVerifier);
+    const provider = this.providers.get(providerName).name;
+
+    const linked = await this.prisma.memberProvider.findUnique({
+      where: {
+        provider_providerUserId: {
+          provider,
+          providerUserId: profile.providerUserId,
+        },
+      },
+      include: { member: true },
+    });
+
+    let member = linked?.member;
+    if (!member) {
+      // Email logins may have stored the same address in another case
+      const existing = await this.prisma.member.findFirst({
+        where: { email: { equals: profile.email, mode: "insensitive" } },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new ConflictException(
+          `An account with this email already exists. Log in with a provider linked to it, then link ${provider} from your profile.`,
         );
       }
 
-      const githubProfileLink = withId({
-        type: "github",
-        url: githubUser.html_url,
+      member = await this.createMember({
+        email: profile.email,
+        displayName: profile.displayName,
+        avatarUrl: profile.avatarUrl,
+        providerAvatarUrl: profile.avatarUrl,
+        organization: profile.organization,
+        bio: profile.bio,
+        location: profile.location,
+        memberLinks: { create: profile.links.map((link) => withId(link)) },
+        providers: {
+          create: withId({
+            provider,
+            providerUserId: profile.providerUserId,
+            email: profile.email,
+          }),
+        },
       });
+    }
 
-      const otherSocialLinks = socialAccounts.map((account) =>
-        withId({
-          type: account.provider,
-          url: account.url,
-        }),
-      );
-
-      const allLinks = [githubProfileLink, ...otherSocialLinks];
+    this.assertNotBanned(member);
 
-      let user = await this.prisma.member.findUnique({
-        where: { email },
-        include: { providers: true },
-      });
+    const session = await this.sessionService.start(
+      member,
+      provider,
+      userAgent,
+    );
 
-      if (!user) {
-        user = await this.prisma.member.create({
-          data: withId({
-            email,
-            displayName: githubUser.name || githubUser.login,
-            avatarUrl: githubUser.avatar_url,
-            organization: githubUser.company,
-            bio: githubUser.bio,
-            location: githubUser.location,
-            memberLinks: { create: allLinks },
-            providers: {
-              create: withId({
-                provider,
-                providerUserId: String(githubUser.id),
-              }),
-            },
-          }),
+    return { ...session, memberId: member.id };
+  }
 
-          include: { providers: true },
-        });
-      } else {
-        const hasGithub = user.providers.some((p) => p.provider === provider);
-        if (!hasGithub) {
-          await this.prisma.memberProvider.create({
-            data: withId({
-              memberId: user.id,
-              provider,
-              providerUserId: String(githubUser.id),
-            }),
-          });
-        }
-      }
+  /**
+   * Attach a provider account to a logged-in member
+   */
+  async linkProvider(
+    memberId: string,
+    providerName: string,
+    code: string,
+    codeVerifier: string,
+  ) {
+    const profile = await this.fetchProfile(providerName, code, codeVerifier);
+    const provider = this.providers.get(providerName).name;
 
-      const permissions = await this.getUserPermissions(user.id);
+    const linked = await this.prisma.memberProvider.findUnique({
+      where: {
+        provider_providerUserId: {
+          provider,
+          providerUserId: profile.providerUserId,
+        },
+      },
+    });
+    if (linked) {
+      throw new ConflictException(
+        linked.memberId === memberId
+          ? `This ${provider} account is already linked to your account`
+          : `This ${provider} account is linked to another member`,
+      );
+    }
 
-      const payload: JwtPayload = {
-        sub: user.id,
-        email: user.email,
-        permissions,
-      };
+    const sameProvider = await this.prisma.memberProvider.findUnique({
+      where: { memberId_provider: { memberId, provider } },
+    });
+    if (sameProvider) {
+      throw new ConflictException(
+        `Another ${provider} account is already linked; unlink it first`,
+      );
+    }
 
-      return {
-        access_token: await this.jwtService.signAsync(payload),
-      };
-    } catch (error: unknown) {
-      if (error instanceof UnauthorizedException) {
-        throw error;
-      }
+    const account = await this.prisma.memberProvider.create({
+      data: withId({
+        memberId,
+        provider,
+        providerUserId: profile.providerUserId,
+        email: profile.email,
+      }),
+      select: {
+        id: true,
+        provider: true,
+        email: true,
+        linkedAt: true,
+      },
+    });
 
-      const message = error instanceof Error ? error.message : "Unknown error";
+    await this.auditService.record({
+      action: "member.provider.link",
+      entityType: "member",
+      entityId: memberId,
+      actorId: memberId,
+      metadata: { provider, email: profile.email },
+    });
+    return account;
+  }
 
-      this.logger.error(
-        `GitHub login error: ${message}`,
-        error instanceof Error ? error.stack : undefined,
-      );
+  /**
+   * Log in the owner of an address proven by an email sign-in link. Owning
+   * the address is what the email provider identifies, so an existing
+   * member with that email gets the provider recorded.
+   */
+  async loginWithVerifiedEmail(email: string, userAgent?: string) {
+    const provider = "email";
+
+    // Addresses from other providers may not be stored in lowercase
+    let member = await this.prisma.member.findFirst({
+      where: { email: { equals: email, mode: "insensitive" } },
+      include: { providers: true },
+    });
 
-      throw new UnauthorizedException(
-        `GitHub Authentication Failed: ${message}`,
-      );
+    if (!member) {
+      member = await this.createMember({
+        email,
+        displayName: email.split("@")[0],
+        providers: {
+          create: withId({ provider, providerUserId: email, email }),
+        },
+      });
+    } else if (!member.providers.some((p) => p.provider === provider)) {
+      await this.prisma.memberProvider.create({
+        data: withId({
+          memberId: member.id,
+          provider,
+          providerUserId: email,
+          email,
+        }),
+      });
     }
+
+    this.assertNotBanned(member);
+
+    const session = await this.sessionService.start(
+      member,
+      provider,
+      userAgent,
+    );
+
+    return { ...session, memberId: member.id };
   }
 
   async devLogin(email: string) {
@@ -200,32 +295,26 @@ export class AuthService {
     });
 
     if (!member) {
-      member = await this.prisma.member.create({
-        data: withId({
-          email,
-          displayName: email.split("@")[0],
-          providers: {
-            create: withId({
-              provider: "dev",
-              providerUserId: `dev_${Date.now()}`,
-            }),
-          },
-        }),
+      member = await this.createMember({
+        email,
+        displayName: email.split("@")[0],
+        providers: {
+          create: withId({
+            provider: "dev",
+            providerUserId: `dev_${Date.now()}`,
+          }),
+        },
       });
     }
 
-    const permissions = await this.getUserPermissions(member.id);
+    this.assertNotBanned(member);
 
-    const payload: JwtPayload = {
-      sub: member.id,
-      email: member.email,
-      permissions,
-    };
+    const permissions = await this.getUserPermissions(member.id);
 
-    const access_token = await this.jwtService.signAsync(payload);
+    const session = await this.sessionService.start(member, "dev");
 
     return {
-      access_token,
+      ...session,
       user: {
         id: member.id,
         email: member.email,
@@ -0,0 +1,19 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const ACTIVITY_SCOPE_KEY = "activityScope";
+
+export interface ActivityScopeOptions {
+  // route or query parameter naming the activity
+  param: string;
+  // what the parameter holds: an activity id, an activity slug, or the id of
+  // a submission whose activity applies
+  by: "id" | "slug" | "submission";
+}
+
+/**
+ * Let roles scoped to the activity named by `param` satisfy `@Permissions`
+ */
+export const ActivityScope = (
+  param: string,
+  by: ActivityScopeOptions["by"] = "id",
+) => SetMetadata(ACTIVITY_SCOPE_KEY, { param, by });
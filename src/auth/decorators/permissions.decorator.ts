@@ -1,4 +1,6 @@
 import { SetMetadata } from "@nestjs/common";
 
+export const PERMISSIONS_KEY = "permissions";
+
 export const Permissions = (...permissions: string[]) =>
-  SetMetadata("permissions", permissions);
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsEmail, IsString, IsNotEmpty, MaxLength } from "class-validator";
+
+export class RequestEmailLoginDto {
+  @ApiProperty({ example: "speaker@example.com" })
+  @Transform(({ value }): string =>
+    typeof value === "string" ? value.toLowerCase().trim() : value,
+  )
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+}
+
+export class VerifyEmailLoginDto {
+  @ApiProperty({ description: "Token from the emailed sign-in link" })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
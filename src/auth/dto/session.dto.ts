@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString, IsOptional, IsNotEmpty } from "class-validator";
+
+export class RefreshTokenDto {
+  @ApiPropertyOptional({
+    description:
+      "Refresh token, for clients that do not use the refresh_token cookie",
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  refreshToken?: string;
+}
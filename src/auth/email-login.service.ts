@@ -0,0 +1,187 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { PrismaService } from "../prisma/prisma.service";
+import { withId } from "src/common/utils/db.util";
+import { generateToken, hashToken } from "src/common/utils/token.util";
+import { buildClientUrl } from "src/common/utils/url.util";
+import { NotificationService } from "../notification/notification.service";
+import { AuthService } from "./auth.service";
+import { EmailLoginEvent } from "../../generated/prisma/client";
+
+const TOKEN_TTL_MINUTES = 15;
+// Per email address
+const MAX_REQUESTS_PER_HOUR = 5;
+const MIN_SECONDS_BETWEEN_REQUESTS = 60;
+
+export interface LoginClient {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Passwordless sign-in: a single-use link is emailed, and presenting its
+ * token logs the owner of the address in. Only token hashes are stored.
+ */
+@Injectable()
+export class EmailLoginService {
+  private readonly logger = new Logger(EmailLoginService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+    private notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Send a sign-in link. The outcome does not reveal whether the address
+   * belongs to a member.
+   */
+  async request(rawEmail: string, client: LoginClient) {
+    const email = rawEmail.trim().toLowerCase();
+    const now = Date.now();
+
+    const recent = await this.prisma.emailLoginToken.findMany({
+      where: { email, createdAt: { gt: new Date(now - 60 * 60 * 1000) } },
+      select: { createdAt: true },
+      orderBy: { createdAt: "desc" },
+    });
+    const tooSoon =
+      recent.length > 0 &&
+      now - recent[0].createdAt.getTime() < MIN_SECONDS_BETWEEN_REQUESTS * 1000;
+    if (tooSoon || recent.length >= MAX_REQUESTS_PER_HOUR) {
+      await this.audit(EmailLoginEvent.RATE_LIMITED, client, email);
+      throw new HttpException(
+        "Too many sign-in requests for this address; try again later",
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const { token, tokenHash } = generateToken();
+    await this.prisma.emailLoginToken.create({
+      data: withId({
+        email,
+        tokenHash,
+        expiresAt: new Date(now + TOKEN_TTL_MINUTES * 60 * 1000),
+      }),
+    });
+
+    const member = await this.prisma.member.findUnique({
+      where: { email },
+      select: { preferredLanguage: true },
+    });
+
+    try {
+      await this.notificationService.sendNow({
+        to: email,
+        template: "magicLink",
+        lang: member?.preferredLanguage,
+        data: {
+          // A client page that posts the token, so link scanners that
+          // prefetch URLs cannot use it up
+          loginUrl: buildClientUrl(
+            `/auth/email/verify?token=${encodeURIComponent(token)}`,
+          ),
+          expiresInMinutes: TOKEN_TTL_MINUTES,
+        },
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      this.logger.error(`Sign-in link to ${email} not sent: ${message}`);
+      await this.audit(EmailLoginEvent.DELIVERY_FAILED, client, email, message);
+      throw new HttpException(
+        "The sign-in email could not be sent; try again later",
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    await this.audit(EmailLoginEvent.REQUESTED, client, email);
+  }
+
+  /**
+   * Use up a sign-in token and start a session for its address
+   */
+  async verify(token: string, client: LoginClient) {
+    const now = new Date();
+    const stored = await this.prisma.emailLoginToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!stored) {
+      return this.reject(client, undefined, "unknown token");
+    }
+    if (stored.usedAt) {
+      return this.reject(client, stored.email, "already used");
+    }
+    if (stored.expiresAt <= now) {
+      return this.reject(client, stored.email, "expired");
+    }
+
+    // Claim the token; a concurrent verification may have used it first
+    const { count } = await this.prisma.emailLoginToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (count === 0) {
+      return this.reject(client, stored.email, "already used");
+    }
+
+    try {
+      const session = await this.authService.loginWithVerifiedEmail(
+        stored.email,
+        client.userAgent,
+      );
+      await this.audit(EmailLoginEvent.VERIFIED, client, stored.email);
+      return session;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      await this.audit(EmailLoginEvent.REJECTED, client, stored.email, message);
+      throw error;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpired() {
+    // Kept for a day after creation, as the rate limit counts them
+    const { count } = await this.prisma.emailLoginToken.deleteMany({
+      where: { createdAt: { lte: new Date(Date.now() - 24 * 60 * 60 * 1000) } },
+    });
+    if (count > 0) this.logger.log(`Purged ${count} old sign-in tokens`);
+  }
+
+  // ========== Private Methods ==========
+
+  /**
+   * Record a refused verification; the caller never learns which check failed
+   */
+  private async reject(
+    client: LoginClient,
+    email: string | undefined,
+    reason: string,
+  ): Promise<never> {
+    await this.audit(EmailLoginEvent.REJECTED, client, email, reason);
+    throw new UnauthorizedException("This sign-in link is invalid or expired");
+  }
+
+  private async audit(
+    event: EmailLoginEvent,
+    client: LoginClient,
+    email?: string,
+    reason?: string,
+  ) {
+    await this.prisma.emailLoginAttempt.create({
+      data: withId({
+        email,
+        event,
+        reason: reason?.slice(0, 255),
+        ip: client.ip?.slice(0, 64),
+        userAgent: client.userAgent?.slice(0, 500),
+      }),
+    });
+  }
+}
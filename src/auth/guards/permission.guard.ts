@@ -1,15 +1,25 @@
 import { Injectable, CanActivate, ExecutionContext } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
 import { Request } from "express";
+import { isUUID } from "class-validator";
 import { AuthUser } from "../strategies/jwt.strategy";
+import { PERMISSIONS_KEY } from "../decorators/permissions.decorator";
+import {
+  ACTIVITY_SCOPE_KEY,
+  ActivityScopeOptions,
+} from "../decorators/activity-scope.decorator";
+import { PrismaService } from "../../prisma/prisma.service";
 
 @Injectable()
 export class PermissionGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
-      "permissions",
+      PERMISSIONS_KEY,
       [context.getHandler(), context.getClass()],
     );
 
@@ -24,8 +34,69 @@ export class PermissionGuard implements CanActivate {
       return false;
     }
 
+    const scope = this.reflector.getAllAndOverride<
+      ActivityScopeOptions | undefined
+    >(ACTIVITY_SCOPE_KEY, [context.getHandler(), context.getClass()]);
+
+    if (scope) {
+      const activityId = await this.resolveActivityId(request, scope);
+      if (activityId) {
+        // Handlers see what the member may do in this activity, on top of
+        // the global permissions carried by the token
+        const scoped = await this.findScopedPermissions(user.id, activityId);
+        user.permissions = [...new Set([...user.permissions, ...scoped])];
+      }
+    }
+
     return requiredPermissions.every((permission) =>
       user.permissions.includes(permission),
     );
   }
+
+  private async resolveActivityId(
+    request: Request,
+    scope: ActivityScopeOptions,
+  ): Promise<string | null> {
+    const params = request.params as Record<string, string | undefined>;
+    const query = request.query as Record<string, unknown>;
+    const value = params[scope.param] ?? query[scope.param];
+    if (typeof value !== "string" || value === "") return null;
+
+    switch (scope.by) {
+      case "id": {
+        if (!isUUID(value)) return null;
+        const activity = await this.prisma.activity.findUnique({
+          where: { id: value },
+          select: { id: true },
+        });
+        return activity?.id ?? null;
+      }
+      case "slug": {
+        const activity = await this.prisma.activity.findUnique({
+          where: { slug: value.toLowerCase() },
+          select: { id: true },
+        });
+        return activity?.id ?? null;
+      }
+      case "submission": {
+        if (!isUUID(value)) return null;
+        const submission = await this.prisma.submission.findUnique({
+          where: { id: value },
+          select: { activityId: true },
+        });
+        return submission?.activityId ?? null;
+      }
+    }
+  }
+
+  private async findScopedPermissions(
+    memberId: string,
+    activityId: string,
+  ): Promise<string[]> {
+    const rolePermissions = await this.prisma.rolePermission.findMany({
+      where: { role: { members: { some: { memberId, activityId } } } },
+      select: { permission: { select: { code: true } } },
+    });
+    return rolePermissions.map((rp) => rp.permission.code);
+  }
 }
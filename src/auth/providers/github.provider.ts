@@ -0,0 +1,74 @@
+import { GitHub } from "arctic";
+import { OAuthProfile, OAuthProvider, fetchJson } from "./oauth-provider";
+
+interface GithubProfile {
+  id: number;
+  login: string;
+  name: string | null;
+  avatar_url: string;
+  company: string | null;
+  bio: string | null;
+  html_url: string;
+  location: string | null;
+}
+
+interface GithubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+interface GithubSocial {
+  provider: string;
+  url: string;
+}
+
+export class GithubProvider implements OAuthProvider {
+  readonly name = "github";
+  private client: GitHub;
+
+  constructor(clientId: string, clientSecret: string, redirectUri: string) {
+    this.client = new GitHub(clientId, clientSecret, redirectUri);
+  }
+
+  createAuthorizationUrl(state: string) {
+    return this.client.createAuthorizationURL(state, ["user:email"]);
+  }
+
+  async fetchProfile(code: string): Promise<OAuthProfile> {
+    const tokens = await this.client.validateAuthorizationCode(code);
+    const accessToken = tokens.accessToken();
+
+    const [user, emails, socialAccounts] = await Promise.all([
+      this.fetchGithub<GithubProfile>("user", accessToken),
+      this.fetchGithub<GithubEmail[]>("user/emails", accessToken),
+      this.fetchGithub<GithubSocial[]>("user/social_accounts", accessToken),
+    ]);
+
+    const email = emails.find((e) => e.primary && e.verified)?.email;
+    if (!email) {
+      throw new Error("GitHub account has no verified primary email address");
+    }
+
+    return {
+      providerUserId: String(user.id),
+      email,
+      displayName: user.name || user.login,
+      avatarUrl: user.avatar_url,
+      organization: user.company,
+      bio: user.bio,
+      location: user.location,
+      links: [
+        { type: "github", url: user.html_url },
+        ...socialAccounts.map((a) => ({ type: a.provider, url: a.url })),
+      ],
+    };
+  }
+
+  private fetchGithub<T>(endpoint: string, accessToken: string) {
+    return fetchJson<T>(`https://api.github.com/${endpoint}`, accessToken, {
+      "User-Agent": "NestJS-Auth-App",
+      Accept: "application/vnd.github+json",
+    });
+  }
+}
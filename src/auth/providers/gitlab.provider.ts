@@ -0,0 +1,64 @@
+import { GitLab } from "arctic";
+import { OAuthProfile, OAuthProvider, fetchJson } from "./oauth-provider";
+
+interface GitlabProfile {
+  id: number;
+  username: string;
+  name: string | null;
+  email: string | null;
+  confirmed_at?: string | null;
+  avatar_url: string | null;
+  web_url: string;
+  organization: string | null;
+  bio: string | null;
+  location: string | null;
+}
+
+export class GitlabProvider implements OAuthProvider {
+  readonly name = "gitlab";
+  private client: GitLab;
+
+  constructor(
+    private baseUrl: string,
+    clientId: string,
+    clientSecret: string,
+    redirectUri: string,
+  ) {
+    this.client = new GitLab(baseUrl, clientId, clientSecret, redirectUri);
+  }
+
+  createAuthorizationUrl(state: string) {
+    return this.client.createAuthorizationURL(state, ["read_user"]);
+  }
+
+  async fetchProfile(code: string): Promise<OAuthProfile> {
+    const tokens = await this.client.validateAuthorizationCode(code);
+    const user = await fetchJson<GitlabProfile>(
+      `${this.baseUrl}/api/v4/user`,
+      tokens.accessToken(),
+    );
+
+    // GitLab only accepts confirmed addresses as the primary email
+    if (!user.email || !user.confirmed_at) {
+      throw new Error("GitLab account has no confirmed email address");
+    }
+
+    return {
+      providerUserId: String(user.id),
+      email: user.email,
+      displayName: user.name || user.username,
+      avatarUrl: user.avatar_url,
+      organization: user.organization || null,
+      bio: user.bio || null,
+      location: user.location || null,
+      links: [
+        {
+          // Self-hosted instances fail the gitlab.com host check for links
+          type:
+            new URL(this.baseUrl).host === "gitlab.com" ? "gitlab" : "website",
+          url: user.web_url,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { OAuthProvider } from "./oauth-provider";
+import { GithubProvider } from "./github.provider";
+import { GoogleProvider } from "./google.provider";
+import { GitlabProvider } from "./gitlab.provider";
+
+interface ProviderCredentials {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+// <PREFIX>_CLIENT_ID, <PREFIX>_CLIENT_SECRET and <PREFIX>_REDIRECT_URI
+const readCredentials = (prefix: string): ProviderCredentials | null => {
+  const clientId = process.env[`${prefix}_CLIENT_ID`];
+  const clientSecret = process.env[`${prefix}_CLIENT_SECRET`];
+  const redirectUri = process.env[`${prefix}_REDIRECT_URI`];
+  if (!clientId || !clientSecret || !redirectUri) return null;
+  return { clientId, clientSecret, redirectUri };
+};
+
+/**
+ * The login providers configured through the environment. A provider is
+ * added by implementing OAuthProvider and registering its factory here.
+ */
+@Injectable()
+export class OAuthProviderRegistry {
+  private readonly logger = new Logger(OAuthProviderRegistry.name);
+  private readonly providers = new Map<string, OAuthProvider>();
+
+  constructor() {
+    const factories: Record<string, (c: ProviderCredentials) => OAuthProvider> =
+      {
+        GITHUB: (c) =>
+          new GithubProvider(c.clientId, c.clientSecret, c.redirectUri),
+        GOOGLE: (c) =>
+          new GoogleProvider(c.clientId, c.clientSecret, c.redirectUri),
+        GITLAB: (c) =>
+          new GitlabProvider(
+            (process.env.GITLAB_URL || "https://gitlab.com").replace(/\/$/, ""),
+            c.clientId,
+            c.clientSecret,
+            c.redirectUri,
+          ),
+      };
+
+    for (const [prefix, create] of Object.entries(factories)) {
+      const credentials = readCredentials(prefix);
+      if (!credentials) continue;
+      const provider = create(credentials);
+      this.providers.set(provider.name, provider);
+    }
+
+    this.logger.log(
+      `Login providers: ${[...this.providers.keys()].join(", ") || "none"}`,
+    );
+  }
+
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  get(name: string): OAuthProvider {
+    const provider = this.providers.get(name.toLowerCase());
+    if (!provider) {
+      throw new NotFoundException(`Unknown login provider "${name}"`);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,36 @@
+export interface OAuthProfile {
+  providerUserId: string;
+  // an address the provider has verified as belonging to the user
+  email: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  organization?: string | null;
+  bio?: string | null;
+  location?: string | null;
+  // profile links to seed a new member's links with
+  links: Array<{ type: string; url: string }>;
+}
+
+/**
+ * An OAuth login provider. `codeVerifier` is generated for every flow;
+ * providers without PKCE ignore it.
+ */
+export interface OAuthProvider {
+  readonly name: string;
+  createAuthorizationUrl(state: string, codeVerifier: string): URL;
+  fetchProfile(code: string, codeVerifier: string): Promise<OAuthProfile>;
+}
+
+export const fetchJson = async <T>(
+  url: string,
+  accessToken: string,
+  headers: Record<string, string> = {},
+): Promise<T> => {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${accessToken}`, ...headers },
+  });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} API error: ${response.statusText}`);
+  }
+  return response.json() as T;
+};
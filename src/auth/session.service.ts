@@ -0,0 +1,180 @@
+import { Injectable, Logger, UnauthorizedException } from "@nestjs/common";
+import { JwtService } from "@nestjs/jwt";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { uuidv7 } from "uuidv7";
+import { PrismaService } from "../prisma/prisma.service";
+import { withId } from "src/common/utils/db.util";
+import { generateToken, hashToken } from "src/common/utils/token.util";
+import { MemberStatus } from "../../generated/prisma/client";
+import { JwtPayloadToken } from "./strategies/jwt.strategy";
+import { AuditService } from "../audit/audit.service";
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+}
+
+interface SessionMember {
+  id: string;
+  email: string;
+  tokenVersion: number;
+}
+
+/**
+ * Issues access/refresh token pairs. Each login starts a token family; a
+ * refresh rotates the family's current token, and presenting an already
+ * rotated token is treated as theft and revokes the whole family.
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Start a new session for a member who just logged in with `provider`
+   */
+  async start(member: SessionMember, provider: string, userAgent?: string) {
+    const familyId = uuidv7();
+    const tokens = await this.issue(member, familyId, userAgent);
+
+    await this.auditService.record({
+      action: "auth.login",
+      entityType: "member",
+      entityId: member.id,
+      actorId: member.id,
+      metadata: { provider, sessionId: familyId },
+    });
+    return tokens;
+  }
+
+  async refresh(refreshToken: string, userAgent?: string) {
+    const now = new Date();
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: {
+        member: {
+          select: { id: true, email: true, tokenVersion: true, status: true },
+        },
+      },
+    });
+    if (!stored || stored.revokedAt || stored.expiresAt <= now) {
+      throw new UnauthorizedException("Invalid refresh token");
+    }
+
+    // Claim the token; losing the claim means it was already rotated
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: stored.id, rotatedAt: null, revokedAt: null },
+      data: { rotatedAt: now },
+    });
+    if (count === 0) {
+      await this.revokeFamily(stored.familyId);
+      this.logger.warn(
+        `Refresh token reused for member ${stored.memberId}; session ${stored.familyId} revoked`,
+      );
+      await this.auditService.record({
+        action: "auth.refresh_token_reuse",
+        entityType: "member",
+        entityId: stored.memberId,
+        actorId: null,
+        metadata: { sessionId: stored.familyId },
+      });
+      throw new UnauthorizedException("Refresh token has already been used");
+    }
+
+    if (stored.member.status === MemberStatus.BANNED) {
+      await this.revokeFamily(stored.familyId);
+      throw new UnauthorizedException("This account has been banned");
+    }
+
+    return this.issue(stored.member, stored.familyId, userAgent);
+  }
+
+  /**
+   * End the session the refresh token belongs to; unknown tokens are ignored
+   */
+  async logout(refreshToken: string) {
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      select: { familyId: true },
+    });
+    if (stored) await this.revokeFamily(stored.familyId);
+  }
+
+  /**
+   * End every session of a member. Bumping the token version also rejects
+   * access tokens issued before now.
+   */
+  async logoutEverywhere(memberId: string) {
+    await this.prisma.$transaction([
+      this.prisma.member.update({
+        where: { id: memberId },
+        data: { tokenVersion: { increment: 1 } },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { memberId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    await this.auditService.record({
+      action: "auth.logout_all",
+      entityType: "member",
+      entityId: memberId,
+    });
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpired() {
+    const { count } = await this.prisma.refreshToken.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    if (count > 0) this.logger.log(`Purged ${count} expired refresh tokens`);
+  }
+
+  // ========== Private Methods ==========
+
+  private async issue(
+    member: SessionMember,
+    familyId: string,
+    userAgent?: string,
+  ): Promise<SessionTokens> {
+    const { token, tokenHash } = generateToken();
+
+    await this.prisma.refreshToken.create({
+      data: withId({
+        memberId: member.id,
+        familyId,
+        tokenHash,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        userAgent: userAgent?.slice(0, 500),
+      }),
+    });
+
+    const payload: JwtPayloadToken = {
+      sub: member.id,
+      email: member.email,
+      v: member.tokenVersion,
+      sid: familyId,
+    };
+
+    return {
+      access_token: await this.jwtService.signAsync(payload),
+      refresh_token: token,
+    };
+  }
+
+  private async revokeFamily(familyId: string) {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
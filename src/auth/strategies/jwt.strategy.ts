@@ -1,13 +1,16 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, UnauthorizedException } from "@nestjs/common";
 import { PassportStrategy } from "@nestjs/passport";
 import { ExtractJwt, Strategy } from "passport-jwt";
 import { ConfigService } from "@nestjs/config";
 import { Request } from "express";
+import { PrismaService } from "../../prisma/prisma.service";
+import { MemberStatus } from "../../../generated/prisma/client";
 
 export interface JwtPayloadToken {
   sub: string;
-  permissions: string[];
+  email: string;
   v: number; // tokenVersion
+  sid: string; // refresh token family (session)
 }
 
 export interface AuthUser {
@@ -18,7 +21,10 @@ export interface AuthUser {
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private prisma: PrismaService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromExtractors([
         (request: Request) => {
@@ -31,10 +37,55 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  validate(payload: JwtPayloadToken): AuthUser {
+  /**
+   * Checked against the database on every request, so bans, logouts and
+   * permission changes apply to tokens that were issued before them
+   */
+  async validate(payload: JwtPayloadToken): Promise<AuthUser> {
+    const member = await this.prisma.member.findUnique({
+      where: { id: payload.sub },
+      select: {
+        status: true,
+        tokenVersion: true,
+        refreshTokens: {
+          where: { familyId: payload.sid, revokedAt: null },
+          select: { id: true },
+          take: 1,
+        },
+        // Activity-scoped roles are resolved per request by PermissionGuard
+        memberRoles: {
+          where: { activityId: null },
+          select: {
+            role: {
+              select: {
+                permissions: {
+                  select: { permission: { select: { code: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!member || member.status === MemberStatus.BANNED) {
+      throw new UnauthorizedException("Account is not active");
+    }
+    if (
+      member.tokenVersion !== payload.v ||
+      member.refreshTokens.length === 0
+    ) {
+      throw new UnauthorizedException("Session has been revoked");
+    }
+
+    const permissions = new Set(
+      member.memberRoles.flatMap((mr) =>
+        mr.role.permissions.map((rp) => rp.permission.code),
+      ),
+    );
+
     return {
       id: payload.sub,
-      permissions: payload.permissions,
+      permissions: [...permissions],
       tokenVersion: payload.v,
     };
   }
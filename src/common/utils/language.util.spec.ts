@@ -0,0 +1,68 @@
+import { parseAcceptLanguage, resolveContent } from "./language.util";
+
+describe("parseAcceptLanguage", () => {
+  it("should return nothing without a header", () => {
+    expect(parseAcceptLanguage(undefined)).toEqual([]);
+    expect(parseAcceptLanguage("")).toEqual([]);
+  });
+
+  it("should order tags by q-value, most preferred first", () => {
+    expect(parseAcceptLanguage("en;q=0.5, zh-TW, ja;q=0.8")).toEqual([
+      "zh-tw",
+      "ja",
+      "en",
+    ]);
+  });
+
+  it("should keep the header order for equal q-values", () => {
+    expect(parseAcceptLanguage("fr;q=0.7, de;q=0.7, en")).toEqual([
+      "en",
+      "fr",
+      "de",
+    ]);
+  });
+
+  it("should drop the wildcard and refused languages", () => {
+    expect(parseAcceptLanguage("en, *;q=0.5, de;q=0")).toEqual(["en"]);
+  });
+
+  it("should ignore parameters other than q", () => {
+    expect(parseAcceptLanguage("en;level=1;q=0.4, ja")).toEqual(["ja", "en"]);
+  });
+});
+
+describe("resolveContent", () => {
+  const contents = [
+    { lang: "en", title: "Hello" },
+    { lang: "zh-tw", title: "你好" },
+  ];
+  const supported = ["en", "zh-tw"];
+
+  it("should prefer an exact match", () => {
+    expect(resolveContent(contents, ["zh-tw", "en"], supported)?.lang).toBe(
+      "zh-tw",
+    );
+  });
+
+  it("should fall back to the primary subtag", () => {
+    expect(resolveContent(contents, ["zh"], supported)?.lang).toBe("zh-tw");
+    expect(resolveContent(contents, ["en-gb"], supported)?.lang).toBe("en");
+  });
+
+  it("should try the preferred languages in order", () => {
+    expect(resolveContent(contents, ["ja", "zh-hk"], supported)?.lang).toBe(
+      "zh-tw",
+    );
+  });
+
+  it("should fall back to the first supported language", () => {
+    expect(resolveContent(contents, ["ja"], ["zh-tw", "en"])?.lang).toBe(
+      "zh-tw",
+    );
+    expect(resolveContent(contents, [], supported)?.lang).toBe("en");
+  });
+
+  it("should return nothing without contents", () => {
+    expect(resolveContent([], ["en"], supported)).toBeUndefined();
+  });
+});
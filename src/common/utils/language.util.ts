@@ -0,0 +1,83 @@
+import { BadRequestException } from "@nestjs/common";
+
+/**
+ * Validate that all content languages are in supportedLanguages and appear only once
+ */
+export const validateContentLanguages = (
+  contents: Array<{ lang: string }>,
+  supportedLanguages: string[],
+): void => {
+  const contentLangs = contents.map((c) => c.lang);
+  const unsupportedLangs = contentLangs.filter(
+    (lang) => !supportedLanguages.includes(lang),
+  );
+
+  if (unsupportedLangs.length > 0) {
+    throw new BadRequestException(
+      `Contents contain unsupported languages: ${unsupportedLangs.join(", ")}`,
+    );
+  }
+
+  // Check for duplicate languages
+  const duplicateLangs = contentLangs.filter(
+    (lang, index) => contentLangs.indexOf(lang) !== index,
+  );
+
+  if (duplicateLangs.length > 0) {
+    throw new BadRequestException(
+      `Duplicate languages in contents: ${duplicateLangs.join(", ")}`,
+    );
+  }
+};
+
+/**
+ * Pick the content in the given language, falling back to the first one
+ */
+export const pickContent = <T extends { lang: string }>(
+  contents: T[],
+  lang: string,
+): T | undefined => contents.find((c) => c.lang === lang) ?? contents[0];
+
+/**
+ * Language tags from an Accept-Language header, most preferred first
+ */
+export const parseAcceptLanguage = (header?: string): string[] => {
+  if (!header) return [];
+
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      return {
+        tag: tag.trim().toLowerCase(),
+        quality: q ? Number(q.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+};
+
+/**
+ * Pick the content for the first preferred language that has one ("zh"
+ * matches "zh-tw"), falling back to the first supported language
+ */
+export const resolveContent = <T extends { lang: string }>(
+  contents: T[],
+  preferred: string[],
+  supportedLanguages: string[],
+): T | undefined => {
+  const primary = (lang: string) => lang.split("-")[0];
+
+  for (const lang of preferred) {
+    const match =
+      contents.find((c) => c.lang === lang) ??
+      contents.find((c) => primary(c.lang) === primary(lang));
+    if (match) return match;
+  }
+  return pickContent(contents, supportedLanguages[0]);
+};
@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Hash a token for storage; only the hash is ever persisted
+ */
+export const hashToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Generate a random URL-safe token together with its hash
+ */
+export const generateToken = (): { token: string; tokenHash: string } => {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+};
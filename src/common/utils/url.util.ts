@@ -0,0 +1,16 @@
+/**
+ * Absolute URL of a page in the frontend client
+ */
+export const buildClientUrl = (path: string): string => {
+  const clientUrl = process.env.CLIENT_URL || "http://localhost:3000";
+  return `${clientUrl}${path}`;
+};
+
+/**
+ * Absolute URL of an API route, e.g. `/uploads/:id/content`
+ */
+export const buildApiUrl = (path: string): string => {
+  const apiUrl = process.env.API_URL || "http://localhost:4000";
+  // Matches the global prefix set in main.ts
+  return `${apiUrl}/api/v1${path}`;
+};
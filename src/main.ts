@@ -6,11 +6,14 @@ import cookieParser from "cookie-parser";
 import { ValidationPipe } from "@nestjs/common";
 import { JwtAuthGuard } from "./auth/guards/jwt-auth.guard";
 import { PermissionGuard } from "./auth/guards/permission.guard";
+import { PrismaService } from "./prisma/prisma.service";
+import { auditContextMiddleware } from "./audit/audit-context";
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
 
   app.use(cookieParser());
+  app.use(auditContextMiddleware);
 
   app.enableCors({
     origin: process.env.CLIENT_URL || "http://localhost:3000",
@@ -38,7 +41,7 @@ async function bootstrap() {
   const reflector = app.get(Reflector);
   app.useGlobalGuards(
     new JwtAuthGuard(reflector),
-    new PermissionGuard(reflector),
+    new PermissionGuard(reflector, app.get(PrismaService)),
   );
 
   await app.listen(process.env.PORT ?? 4000);
@@ -0,0 +1,87 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import {
+  IsString,
+  IsIn,
+  IsLocale,
+  IsOptional,
+  IsUrl,
+  MaxLength,
+  IsNotEmpty,
+} from "class-validator";
+import { LINK_TYPES } from "../utils/link-types";
+
+const trim = ({ value }: { value: unknown }): unknown =>
+  typeof value === "string" ? value.trim() : value;
+
+export class UpdateProfileDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  displayName?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  bio?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @MaxLength(255)
+  organization?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @MaxLength(100)
+  jobTitle?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+
+  @ApiPropertyOptional({
+    example: "zh-tw",
+    description: "Language used for emails",
+  })
+  @IsOptional()
+  @Transform(({ value }): string =>
+    typeof value === "string" ? value.toLowerCase() : value,
+  )
+  @IsLocale()
+  @MaxLength(15)
+  preferredLanguage?: string;
+}
+
+export class CreateMemberLinkDto {
+  @ApiProperty({ enum: LINK_TYPES, example: "github" })
+  @IsIn(LINK_TYPES)
+  type: string;
+
+  @ApiProperty({ example: "https://github.com/octocat" })
+  @Transform(trim)
+  @IsUrl({ protocols: ["http", "https"], require_protocol: true })
+  @MaxLength(255)
+  url: string;
+}
+
+export class UpdateMemberLinkDto extends PartialType(CreateMemberLinkDto) {}
+
+export class BanMemberDto {
+  @ApiProperty({ description: "Why the member is banned; kept on record" })
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,246 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  ParseIntPipe,
+  DefaultValuePipe,
+  Query,
+  HttpCode,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from "@nestjs/swagger";
+import { MemberService } from "./member.service";
+import {
+  BanMemberDto,
+  CreateMemberLinkDto,
+  UpdateMemberLinkDto,
+  UpdateProfileDto,
+} from "./dto/member.dto";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+import { Public } from "src/auth/decorators/public.decorator";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+import { MemberStatus } from "../../generated/prisma/client";
+
+@ApiTags("Members")
+@Controller("members")
+export class MemberController {
+  constructor(private readonly memberService: MemberService) {}
+
+  // ========== Member API ==========
+
+  @Get("me")
+  @ApiOperation({ summary: "Get my profile" })
+  async findMe(@CurrentUser() user: AuthUser) {
+    return this.memberService.findMe(user.id);
+  }
+
+  @Patch("me")
+  @ApiOperation({ summary: "Update my profile" })
+  @ApiResponse({ status: 200, description: "Profile updated successfully" })
+  @ApiResponse({ status: 400, description: "Invalid input" })
+  async updateMe(@CurrentUser() user: AuthUser, @Body() dto: UpdateProfileDto) {
+    return this.memberService.updateMe(user.id, dto);
+  }
+
+  @Get("me/links")
+  @ApiOperation({ summary: "List my profile links" })
+  async findLinks(@CurrentUser() user: AuthUser) {
+    return this.memberService.findLinks(user.id);
+  }
+
+  @Post("me/links")
+  @ApiOperation({ summary: "Add a profile link" })
+  @ApiResponse({ status: 201, description: "Created successfully" })
+  @ApiResponse({
+    status: 400,
+    description: "The URL does not belong to the link type",
+  })
+  async createLink(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: CreateMemberLinkDto,
+  ) {
+    return this.memberService.createLink(user.id, dto);
+  }
+
+  @Patch("me/links/:linkId")
+  @ApiOperation({ summary: "Update a profile link" })
+  @ApiResponse({
+    status: 400,
+    description: "The URL does not belong to the link type",
+  })
+  @ApiResponse({ status: 404, description: "Link not found" })
+  async updateLink(
+    @CurrentUser() user: AuthUser,
+    @Param("linkId", ParseUUIDPipe) linkId: string,
+    @Body() dto: UpdateMemberLinkDto,
+  ) {
+    return this.memberService.updateLink(user.id, linkId, dto);
+  }
+
+  @Delete("me/links/:linkId")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Remove a profile link" })
+  @ApiResponse({ status: 404, description: "Link not found" })
+  async removeLink(
+    @CurrentUser() user: AuthUser,
+    @Param("linkId", ParseUUIDPipe) linkId: string,
+  ) {
+    return this.memberService.removeLink(user.id, linkId);
+  }
+
+  @Get("me/providers")
+  @ApiOperation({ summary: "List the login methods linked to my account" })
+  async findProviders(@CurrentUser() user: AuthUser) {
+    return this.memberService.findProviders(user.id);
+  }
+
+  @Delete("me/providers/:providerId")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Unlink a login method" })
+  @ApiResponse({
+    status: 400,
+    description: "It is the last login method of the account",
+  })
+  @ApiResponse({ status: 404, description: "Login provider not found" })
+  async unlinkProvider(
+    @CurrentUser() user: AuthUser,
+    @Param("providerId", ParseUUIDPipe) providerId: string,
+  ) {
+    return this.memberService.unlinkProvider(user.id, providerId);
+  }
+
+  // ========== Public API ==========
+
+  @Public()
+  @Get(":id/profile")
+  @ApiOperation({ summary: "Public speaker profile with accepted talks" })
+  @ApiResponse({
+    status: 404,
+    description: "Member not found or has no published talks",
+  })
+  async findSpeakerProfile(@Param("id", ParseUUIDPipe) id: string) {
+    return this.memberService.findSpeakerProfile(id);
+  }
+
+  // ========== Admin API ==========
+
+  @Permissions("member:manage")
+  @Get()
+  @ApiOperation({ summary: "Search members" })
+  @ApiQuery({
+    name: "search",
+    required: false,
+    description: "Matches email, display name or organization",
+  })
+  @ApiQuery({ name: "status", required: false, enum: MemberStatus })
+  @ApiQuery({ name: "role", required: false, description: "Role name" })
+  @ApiQuery({
+    name: "provider",
+    required: false,
+    description: "Login provider, e.g. github",
+  })
+  @ApiQuery({ name: "page", required: false, example: 1 })
+  @ApiQuery({ name: "limit", required: false, example: 50 })
+  async findAll(
+    @Query("search") search?: string,
+    @Query("status", new ParseEnumPipe(MemberStatus, { optional: true }))
+    status?: MemberStatus,
+    @Query("role") role?: string,
+    @Query("provider") provider?: string,
+    @Query("page", new DefaultValuePipe(1), ParseIntPipe) page = 1,
+    @Query("limit", new DefaultValuePipe(50), ParseIntPipe) limit = 50,
+  ) {
+    return this.memberService.findAll({
+      search,
+      status,
+      role,
+      provider,
+      page: Math.max(page, 1),
+      limit: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  @Permissions("member:manage")
+  @Get(":id")
+  @ApiOperation({ summary: "Get member by ID (for admin)" })
+  @ApiResponse({ status: 404, description: "Member not found" })
+  async findOne(@Param("id", ParseUUIDPipe) id: string) {
+    return this.memberService.findOne(id);
+  }
+
+  @Permissions("member:manage")
+  @Post(":id/ban")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Ban a member; existing sessions stop working" })
+  @ApiResponse({ status: 400, description: "Attempt to ban yourself" })
+  @ApiResponse({ status: 404, description: "Member not found" })
+  @ApiResponse({ status: 409, description: "Member is already banned" })
+  async ban(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: BanMemberDto,
+  ) {
+    return this.memberService.ban(user.id, id, dto);
+  }
+
+  @Permissions("member:manage")
+  @Post(":id/unban")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Lift a member's ban" })
+  @ApiResponse({ status: 404, description: "Member not found" })
+  @ApiResponse({ status: 409, description: "Member is not banned" })
+  async unban(@Param("id", ParseUUIDPipe) id: string) {
+    return this.memberService.unban(id);
+  }
+
+  @Permissions("role:manage")
+  @Put(":id/roles/:roleId")
+  @ApiOperation({ summary: "Give a member a role" })
+  @ApiQuery({
+    name: "activityId",
+    required: false,
+    description: "Limit the role to one activity; omit for a global role",
+  })
+  @ApiResponse({ status: 400, description: "Cannot change your own roles" })
+  @ApiResponse({
+    status: 404,
+    description: "Member, role or activity not found",
+  })
+  async assignRole(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("roleId", ParseUUIDPipe) roleId: string,
+    @Query("activityId", new ParseUUIDPipe({ optional: true }))
+    activityId?: string,
+  ) {
+    return this.memberService.assignRole(user.id, id, roleId, activityId);
+  }
+
+  @Permissions("role:manage")
+  @Delete(":id/roles/:roleId")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Take a role away from a member" })
+  @ApiQuery({
+    name: "activityId",
+    required: false,
+    description: "Activity the role was scoped to; omit for the global role",
+  })
+  @ApiResponse({ status: 400, description: "Cannot change your own roles" })
+  @ApiResponse({ status: 404, description: "Member does not have this role" })
+  async removeRole(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("roleId", ParseUUIDPipe) roleId: string,
+    @Query("activityId", new ParseUUIDPipe({ optional: true }))
+    activityId?: string,
+  ) {
+    return this.memberService.removeRole(user.id, id, roleId, activityId);
+  }
+}
@@ -0,0 +1,459 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  BanMemberDto,
+  CreateMemberLinkDto,
+  UpdateMemberLinkDto,
+  UpdateProfileDto,
+} from "./dto/member.dto";
+import { withId } from "src/common/utils/db.util";
+import { AuditService } from "../audit/audit.service";
+import { LINK_HOSTS } from "./utils/link-types";
+import {
+  ConfirmationStatus,
+  MemberStatus,
+  Prisma,
+  SubmissionDecision,
+  SubmissionStatus,
+} from "../../generated/prisma/client";
+
+const profileSelect = {
+  id: true,
+  email: true,
+  displayName: true,
+  bio: true,
+  organization: true,
+  jobTitle: true,
+  location: true,
+  avatarUrl: true,
+  preferredLanguage: true,
+  createdAt: true,
+  memberLinks: {
+    select: { id: true, type: true, url: true },
+    orderBy: { createdAt: "asc" as const },
+  },
+};
+
+const adminMemberSelect = {
+  id: true,
+  email: true,
+  displayName: true,
+  organization: true,
+  avatarUrl: true,
+  status: true,
+  bannedAt: true,
+  banReason: true,
+  createdAt: true,
+  memberRoles: {
+    select: {
+      role: { select: { id: true, name: true } },
+      activity: { select: { id: true, slug: true } },
+    },
+  },
+  providers: { select: { id: true, provider: true, email: true } },
+};
+
+export interface MemberSearch {
+  search?: string;
+  status?: MemberStatus;
+  role?: string;
+  provider?: string;
+  page: number;
+  limit: number;
+}
+
+const linkSelect = { id: true, type: true, url: true, createdAt: true };
+
+@Injectable()
+export class MemberService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  // ========== Profile ==========
+
+  async findMe(memberId: string) {
+    const member = await this.prisma.member.findUnique({
+      where: { id: memberId },
+      select: profileSelect,
+    });
+    if (!member) throw new NotFoundException("Member not found");
+    return member;
+  }
+
+  async updateMe(memberId: string, dto: UpdateProfileDto) {
+    await this.findMe(memberId);
+
+    return this.prisma.member.update({
+      where: { id: memberId },
+      data: {
+        ...(dto.displayName !== undefined && { displayName: dto.displayName }),
+        ...(dto.bio !== undefined && { bio: dto.bio || null }),
+        ...(dto.organization !== undefined && {
+          organization: dto.organization || null,
+        }),
+        ...(dto.jobTitle !== undefined && { jobTitle: dto.jobTitle || null }),
+        ...(dto.location !== undefined && { location: dto.location || null }),
+        ...(dto.preferredLanguage !== undefined && {
+          preferredLanguage: dto.preferredLanguage,
+        }),
+      },
+      select: profileSelect,
+    });
+  }
+
+  // ========== Links ==========
+
+  async findLinks(memberId: string) {
+    return this.prisma.memberLink.findMany({
+      where: { memberId },
+      select: linkSelect,
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async createLink(memberId: string, dto: CreateMemberLinkDto) {
+    this.validateLinkUrl(dto.type, dto.url);
+
+    return this.prisma.memberLink.create({
+      data: withId({ memberId, type: dto.type, url: dto.url }),
+      select: linkSelect,
+    });
+  }
+
+  async updateLink(memberId: string, linkId: string, dto: UpdateMemberLinkDto) {
+    const link = await this.findOwnLink(memberId, linkId);
+
+    // Re-check the URL against the type it ends up with
+    this.validateLinkUrl(dto.type ?? link.type, dto.url ?? link.url);
+
+    return this.prisma.memberLink.update({
+      where: { id: linkId },
+      data: {
+        ...(dto.type && { type: dto.type }),
+        ...(dto.url && { url: dto.url }),
+      },
+      select: linkSelect,
+    });
+  }
+
+  async removeLink(memberId: string, linkId: string) {
+    await this.findOwnLink(memberId, linkId);
+    await this.prisma.memberLink.delete({ where: { id: linkId } });
+  }
+
+  // ========== Login Providers ==========
+
+  async findProviders(memberId: string) {
+    return this.prisma.memberProvider.findMany({
+      where: { memberId },
+      select: { id: true, provider: true, email: true, linkedAt: true },
+      orderBy: { linkedAt: "asc" },
+    });
+  }
+
+  /**
+   * Unlink a login identity; the last one stays so the account remains
+   * reachable
+   */
+  async unlinkProvider(memberId: string, providerId: string) {
+    await this.prisma.$transaction(async (tx) => {
+      const providers = await tx.memberProvider.findMany({
+        where: { memberId },
+        select: { id: true },
+      });
+      if (!providers.some((p) => p.id === providerId)) {
+        throw new NotFoundException("Login provider not found");
+      }
+      if (providers.length === 1) {
+        throw new BadRequestException(
+          "You cannot unlink your last login method",
+        );
+      }
+
+      const removed = await tx.memberProvider.delete({
+        where: { id: providerId },
+      });
+      await this.auditService.record(
+        {
+          action: "member.provider.unlink",
+          entityType: "member",
+          entityId: memberId,
+          metadata: { provider: removed.provider },
+        },
+        tx,
+      );
+    });
+  }
+
+  // ========== Public ==========
+
+  /**
+   * Public profile of a speaker with at least one accepted talk whose
+   * decision has been published
+   */
+  async findSpeakerProfile(memberId: string) {
+    const acceptedWhere: Prisma.SubmissionWhereInput = {
+      status: SubmissionStatus.SUBMITTED,
+      decision: SubmissionDecision.ACCEPTED,
+      activity: { decisionsPublishedAt: { not: null } },
+      AND: [
+        {
+          OR: [
+            { confirmationStatus: null },
+            {
+              confirmationStatus: {
+                in: [ConfirmationStatus.PENDING, ConfirmationStatus.CONFIRMED],
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    const member = await this.prisma.member.findFirst({
+      where: {
+        id: memberId,
+        status: MemberStatus.ACTIVE,
+        OR: [
+          { submissions: { some: acceptedWhere } },
+          { submissionSpeakers: { some: { submission: acceptedWhere } } },
+        ],
+      },
+      select: {
+        id: true,
+        displayName: true,
+        bio: true,
+        organization: true,
+        jobTitle: true,
+        avatarUrl: true,
+        memberLinks: {
+          select: { type: true, url: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+    if (!member) throw new NotFoundException("Speaker not found");
+
+    const talks = await this.prisma.submission.findMany({
+      where: {
+        ...acceptedWhere,
+        OR: [{ memberId }, { speakers: { some: { memberId } } }],
+      },
+      select: {
+        id: true,
+        activity: { select: { slug: true, name: true } },
+        contents: { select: { lang: true, title: true, abstract: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return { ...member, talks };
+  }
+
+  // ========== Admin ==========
+
+  async findAll(query: MemberSearch) {
+    const where: Prisma.MemberWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.role && {
+        memberRoles: { some: { role: { name: query.role } } },
+      }),
+      ...(query.provider && {
+        providers: { some: { provider: query.provider } },
+      }),
+      ...(query.search && {
+        OR: [
+          { email: { contains: query.search, mode: "insensitive" } },
+          { displayName: { contains: query.search, mode: "insensitive" } },
+          { organization: { contains: query.search, mode: "insensitive" } },
+        ],
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.member.findMany({
+        where,
+        select: adminMemberSelect,
+        orderBy: { createdAt: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      this.prisma.member.count({ where }),
+    ]);
+
+    return { items, total, page: query.page, limit: query.limit };
+  }
+
+  async findOne(id: string) {
+    const member = await this.prisma.member.findUnique({
+      where: { id },
+      select: adminMemberSelect,
+    });
+    if (!member) throw new NotFoundException("Member not found");
+    return member;
+  }
+
+  async ban(adminId: string, id: string, dto: BanMemberDto) {
+    if (adminId === id) {
+      throw new BadRequestException("You cannot ban yourself");
+    }
+    const member = await this.findOne(id);
+    if (member.status === MemberStatus.BANNED) {
+      throw new ConflictException("Member is already banned");
+    }
+
+    const banned = await this.prisma.member.update({
+      where: { id },
+      data: {
+        status: MemberStatus.BANNED,
+        bannedAt: new Date(),
+        banReason: dto.reason,
+      },
+      select: adminMemberSelect,
+    });
+
+    await this.auditService.record({
+      action: "member.ban",
+      entityType: "member",
+      entityId: id,
+      before: { status: member.status },
+      after: { status: banned.status, banReason: banned.banReason },
+    });
+    return banned;
+  }
+
+  async unban(id: string) {
+    const member = await this.findOne(id);
+    if (member.status !== MemberStatus.BANNED) {
+      throw new ConflictException("Member is not banned");
+    }
+
+    const unbanned = await this.prisma.member.update({
+      where: { id },
+      data: { status: MemberStatus.ACTIVE, bannedAt: null, banReason: null },
+      select: adminMemberSelect,
+    });
+
+    await this.auditService.record({
+      action: "member.unban",
+      entityType: "member",
+      entityId: id,
+      before: { status: member.status, banReason: member.banReason },
+      after: { status: unbanned.status, banReason: null },
+    });
+    return unbanned;
+  }
+
+  /**
+   * Give a member a role, globally or for one activity when `activityId` is set
+   */
+  async assignRole(
+    adminId: string,
+    id: string,
+    roleId: string,
+    activityId?: string,
+  ) {
+    this.assertNotSelf(adminId, id);
+    await this.findOne(id);
+    const role = await this.findRole(roleId);
+    if (activityId) await this.findActivity(activityId);
+
+    const existing = await this.prisma.memberRole.findFirst({
+      where: { memberId: id, roleId, activityId: activityId ?? null },
+    });
+    if (!existing) {
+      await this.prisma.memberRole.create({
+        data: withId({ memberId: id, roleId, activityId: activityId ?? null }),
+      });
+      await this.auditService.record({
+        action: "member.role.assign",
+        entityType: "member",
+        entityId: id,
+        metadata: { role: role.name, activityId: activityId ?? null },
+      });
+    }
+    return this.findOne(id);
+  }
+
+  async removeRole(
+    adminId: string,
+    id: string,
+    roleId: string,
+    activityId?: string,
+  ) {
+    this.assertNotSelf(adminId, id);
+    const { count } = await this.prisma.memberRole.deleteMany({
+      where: { memberId: id, roleId, activityId: activityId ?? null },
+    });
+    if (count === 0) {
+      throw new NotFoundException("Member does not have this role");
+    }
+
+    await this.auditService.record({
+      action: "member.role.remove",
+      entityType: "member",
+      entityId: id,
+      metadata: { roleId, activityId: activityId ?? null },
+    });
+  }
+
+  // ========== Private Methods ==========
+
+  /**
+   * Role changes always need a second administrator, so nobody can grant
+   * themselves more access or strip the last admin role by accident
+   */
+  private assertNotSelf(adminId: string, id: string) {
+    if (adminId === id) {
+      throw new BadRequestException("You cannot change your own roles");
+    }
+  }
+
+  private async findActivity(id: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    return activity;
+  }
+
+  private async findRole(id: string) {
+    const role = await this.prisma.role.findUnique({ where: { id } });
+    if (!role) throw new NotFoundException("Role not found");
+    return role;
+  }
+
+  private async findOwnLink(memberId: string, linkId: string) {
+    const link = await this.prisma.memberLink.findFirst({
+      where: { id: linkId, memberId },
+    });
+    if (!link) throw new NotFoundException("Link not found");
+    return link;
+  }
+
+  /**
+   * Make sure a link of a known service points at that service
+   */
+  private validateLinkUrl(type: string, url: string): void {
+    const hosts = LINK_HOSTS[type] ?? [];
+    if (hosts.length === 0) return;
+
+    const host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+    const matches = hosts.some(
+      (allowed) => host === allowed || host.endsWith(`.${allowed}`),
+    );
+    if (!matches) {
+      throw new BadRequestException(
+        `A ${type} link must point to ${hosts.join(" or ")}`,
+      );
+    }
+  }
+}
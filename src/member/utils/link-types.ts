@@ -0,0 +1,17 @@
+// Hosts accepted per link type; types without hosts take any http(s) URL
+export const LINK_HOSTS: Record<string, string[]> = {
+  github: ["github.com"],
+  gitlab: ["gitlab.com"],
+  twitter: ["twitter.com", "x.com"],
+  linkedin: ["linkedin.com"],
+  facebook: ["facebook.com"],
+  instagram: ["instagram.com"],
+  youtube: ["youtube.com", "youtu.be"],
+  bluesky: ["bsky.app"],
+  npm: ["npmjs.com"],
+  mastodon: [],
+  website: [],
+  generic: [],
+};
+
+export const LINK_TYPES = Object.keys(LINK_HOSTS);
@@ -0,0 +1,47 @@
+import { Module } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { NotificationService } from "./notification.service";
+import { OutboxWorker } from "./outbox.worker";
+import { MAIL_TRANSPORT, MailTransport } from "./transports/mail-transport";
+import { SmtpTransport } from "./transports/smtp.transport";
+import { FileTransport } from "./transports/file.transport";
+import { LogTransport } from "./transports/log.transport";
+
+@Module({
+  providers: [
+    NotificationService,
+    OutboxWorker,
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      // SMTP in production, files under .tmp/mail everywhere else; "log"
+      // prints emails to the console instead
+      useFactory: (config: ConfigService): MailTransport => {
+        const from = config.get<string>("MAIL_FROM") || "noreply@localhost";
+        const transport =
+          config.get<string>("MAIL_TRANSPORT") ||
+          (config.get<string>("NODE_ENV") === "production" ? "smtp" : "file");
+
+        if (transport === "smtp") {
+          return new SmtpTransport({
+            host: config.getOrThrow<string>("SMTP_HOST"),
+            port: Number(config.get<string>("SMTP_PORT") || 587),
+            secure: config.get<string>("SMTP_SECURE") === "true",
+            user: config.get<string>("SMTP_USER"),
+            pass: config.get<string>("SMTP_PASS"),
+            from,
+          });
+        }
+        if (transport === "log") {
+          return new LogTransport();
+        }
+        return new FileTransport(
+          config.get<string>("MAIL_FILE_DIR") || ".tmp/mail",
+          from,
+        );
+      },
+    },
+  ],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
@@ -0,0 +1,87 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { uuidv7 } from "uuidv7";
+import { withId } from "src/common/utils/db.util";
+import { Prisma } from "../../generated/prisma/client";
+import {
+  DEFAULT_LANGUAGE,
+  TemplateData,
+  TemplateName,
+  renderTemplate,
+} from "./templates";
+import { MAIL_TRANSPORT } from "./transports/mail-transport";
+import type { MailTransport } from "./transports/mail-transport";
+
+export interface OutgoingEmail<K extends TemplateName> {
+  to: string;
+  template: K;
+  data: TemplateData[K];
+  // Recipient's preferred language, if known
+  lang?: string | null;
+  // Activity languages; the first entry is used when the recipient has none
+  fallbackLanguages?: string[];
+}
+
+@Injectable()
+export class NotificationService {
+  constructor(@Inject(MAIL_TRANSPORT) private transport: MailTransport) {}
+
+  /**
+   * Pick the language an email should be written in
+   */
+  resolveLanguage(
+    preferred: string | null | undefined,
+    fallbackLanguages: string[] = [],
+  ): string {
+    return (
+      preferred ??
+      fallbackLanguages[0] ??
+      DEFAULT_LANGUAGE
+    ).toLowerCase();
+  }
+
+  /**
+   * Render an email and add it to the outbox. Pass the transaction client of
+   * the triggering change so the email is only sent if that change commits.
+   */
+  async enqueue<K extends TemplateName>(
+    tx: Prisma.TransactionClient,
+    email: OutgoingEmail<K>,
+  ) {
+    const rendered = renderTemplate(
+      email.template,
+      this.resolveLanguage(email.lang, email.fallbackLanguages),
+      email.data,
+    );
+
+    return tx.emailOutbox.create({
+      data: withId({
+        recipient: email.to,
+        template: email.template,
+        lang: rendered.lang,
+        subject: rendered.subject,
+        text: rendered.text,
+      }),
+      select: { id: true },
+    });
+  }
+
+  /**
+   * Render and deliver an email right away, without the outbox. Meant for
+   * short-lived secrets such as sign-in links, which should neither wait for
+   * the worker nor be stored; delivery errors reach the caller.
+   */
+  async sendNow<K extends TemplateName>(email: OutgoingEmail<K>) {
+    const rendered = renderTemplate(
+      email.template,
+      this.resolveLanguage(email.lang, email.fallbackLanguages),
+      email.data,
+    );
+
+    await this.transport.send({
+      id: uuidv7(),
+      to: email.to,
+      subject: rendered.subject,
+      text: rendered.text,
+    });
+  }
+}
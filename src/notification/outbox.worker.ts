@@ -0,0 +1,111 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { Interval } from "@nestjs/schedule";
+import { PrismaService } from "../prisma/prisma.service";
+import { MAIL_TRANSPORT } from "./transports/mail-transport";
+import type { MailTransport } from "./transports/mail-transport";
+import { EmailStatus } from "../../generated/prisma/client";
+
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A SENDING row older than this belongs to a worker that died mid-send
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class OutboxWorker {
+  private readonly logger = new Logger(OutboxWorker.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(MAIL_TRANSPORT) private transport: MailTransport,
+  ) {}
+
+  @Interval(15 * 1000)
+  async deliverPending() {
+    // Skip a tick while the previous batch is still sending
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const staleLock = new Date(now.getTime() - LOCK_TIMEOUT_MS);
+      const dueWhere = {
+        OR: [
+          { status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+          { status: EmailStatus.SENDING, lockedAt: { lt: staleLock } },
+        ],
+      };
+
+      const due = await this.prisma.emailOutbox.findMany({
+        where: dueWhere,
+        orderBy: { nextAttemptAt: "asc" },
+        take: BATCH_SIZE,
+        select: { id: true },
+      });
+
+      for (const { id } of due) {
+        // Claim the row so another instance does not send it too
+        const { count } = await this.prisma.emailOutbox.updateMany({
+          where: { id, ...dueWhere },
+          data: { status: EmailStatus.SENDING, lockedAt: new Date() },
+        });
+        if (count > 0) await this.deliver(id);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(id: string) {
+    const email = await this.prisma.emailOutbox.findUniqueOrThrow({
+      where: { id },
+    });
+
+    try {
+      await this.transport.send({
+        id: email.id,
+        to: email.recipient,
+        subject: email.subject,
+        text: email.text,
+      });
+
+      await this.prisma.emailOutbox.update({
+        where: { id },
+        data: {
+          status: EmailStatus.SENT,
+          attempts: { increment: 1 },
+          sentAt: new Date(),
+          lockedAt: null,
+          lastError: null,
+        },
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const attempts = email.attempts + 1;
+      const exhausted = attempts >= MAX_ATTEMPTS;
+
+      // Exponential backoff: 1m, 2m, 4m, ... capped at 6h
+      const delay = Math.min(
+        BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+        MAX_RETRY_DELAY_MS,
+      );
+
+      await this.prisma.emailOutbox.update({
+        where: { id },
+        data: {
+          status: exhausted ? EmailStatus.FAILED : EmailStatus.PENDING,
+          attempts,
+          nextAttemptAt: new Date(Date.now() + delay),
+          lockedAt: null,
+          lastError: message,
+        },
+      });
+
+      this.logger.warn(
+        `Email ${id} to ${email.recipient} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${message}`,
+      );
+    }
+  }
+}
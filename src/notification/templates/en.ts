@@ -0,0 +1,52 @@
+import { TemplateSet } from "./template.types";
+
+const formatDate = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "long", timeStyle: "short" });
+
+export const en: TemplateSet = {
+  welcome: ({ displayName }) => ({
+    subject: "Welcome aboard",
+    text: `Hi ${displayName},\n\nYour account has been created. You can now submit proposals to our activities.`,
+  }),
+
+  magicLink: ({ loginUrl, expiresInMinutes }) => ({
+    subject: "Your sign-in link",
+    text: `Use this link to sign in. It works once and expires in ${expiresInMinutes} minutes:\n${loginUrl}\n\nIf you did not ask to sign in, you can ignore this email.`,
+  }),
+
+  submissionReceived: ({
+    displayName,
+    activityName,
+    title,
+    submissionUrl,
+  }) => ({
+    subject: `[${activityName}] We received your proposal`,
+    text: `Hi ${displayName},\n\nThanks for submitting "${title}" to ${activityName}. You can follow it here:\n${submissionUrl}`,
+  }),
+
+  invitation: ({ inviterName, activityName, title, inviteUrl, expiresAt }) => ({
+    subject: `[${activityName}] ${inviterName} invited you to co-present`,
+    text: `${inviterName} invited you to co-present "${title}" at ${activityName}.\n\nAccept or decline before ${formatDate(expiresAt)}:\n${inviteUrl}`,
+  }),
+
+  decisionAccepted: ({
+    displayName,
+    activityName,
+    title,
+    confirmationDeadline,
+    submissionUrl,
+  }) => ({
+    subject: `[${activityName}] Your proposal was accepted`,
+    text: `Hi ${displayName},\n\nCongratulations! "${title}" was accepted for ${activityName}.\n\nPlease confirm or decline before ${formatDate(confirmationDeadline)}:\n${submissionUrl}`,
+  }),
+
+  decisionRejected: ({ displayName, activityName, title }) => ({
+    subject: `[${activityName}] Update on your proposal`,
+    text: `Hi ${displayName},\n\nThank you for submitting "${title}" to ${activityName}. Unfortunately we could not include it in the program this time.`,
+  }),
+
+  decisionWaitlisted: ({ displayName, activityName, title }) => ({
+    subject: `[${activityName}] Your proposal is on the waitlist`,
+    text: `Hi ${displayName},\n\n"${title}" is on the waitlist for ${activityName}. We will email you again if a slot opens up.`,
+  }),
+};
@@ -0,0 +1,38 @@
+import { en } from "./en";
+import { zhTw } from "./zh-tw";
+import {
+  RenderedEmail,
+  TemplateData,
+  TemplateName,
+  TemplateSet,
+} from "./template.types";
+
+export * from "./template.types";
+
+export const DEFAULT_LANGUAGE = "en";
+
+// Keyed by lowercase language code; a bare language ("zh") is tried after
+// the full code ("zh-tw")
+const TEMPLATES: Record<string, TemplateSet> = {
+  en,
+  "zh-tw": zhTw,
+};
+
+/**
+ * Render a template in the closest available language.
+ * Returns the language actually used alongside the content.
+ */
+export const renderTemplate = <K extends TemplateName>(
+  name: K,
+  lang: string,
+  data: TemplateData[K],
+): RenderedEmail & { lang: string } => {
+  const normalized = lang.toLowerCase();
+  const candidates = [normalized, normalized.split("-")[0], DEFAULT_LANGUAGE];
+  const resolved = candidates.find((candidate) => TEMPLATES[candidate])!;
+
+  const render = TEMPLATES[resolved][name] as (
+    data: TemplateData[K],
+  ) => RenderedEmail;
+  return { lang: resolved, ...render(data) };
+};
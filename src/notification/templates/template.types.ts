@@ -0,0 +1,45 @@
+export interface TemplateData {
+  welcome: { displayName: string };
+  magicLink: { loginUrl: string; expiresInMinutes: number };
+  submissionReceived: {
+    displayName: string;
+    activityName: string;
+    title: string;
+    submissionUrl: string;
+  };
+  invitation: {
+    inviterName: string;
+    activityName: string;
+    title: string;
+    inviteUrl: string;
+    expiresAt: Date;
+  };
+  decisionAccepted: {
+    displayName: string;
+    activityName: string;
+    title: string;
+    confirmationDeadline: Date;
+    submissionUrl: string;
+  };
+  decisionRejected: {
+    displayName: string;
+    activityName: string;
+    title: string;
+  };
+  decisionWaitlisted: {
+    displayName: string;
+    activityName: string;
+    title: string;
+  };
+}
+
+export type TemplateName = keyof TemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+}
+
+export type TemplateSet = {
+  [K in TemplateName]: (data: TemplateData[K]) => RenderedEmail;
+};
@@ -0,0 +1,52 @@
+import { TemplateSet } from "./template.types";
+
+const formatDate = (date: Date) =>
+  date.toLocaleString("zh-TW", { dateStyle: "long", timeStyle: "short" });
+
+export const zhTw: TemplateSet = {
+  welcome: ({ displayName }) => ({
+    subject: "歡迎加入",
+    text: `${displayName} 您好：\n\n您的帳號已建立，現在可以開始投稿了。`,
+  }),
+
+  magicLink: ({ loginUrl, expiresInMinutes }) => ({
+    subject: "您的登入連結",
+    text: `請使用以下連結登入，連結僅能使用一次，並將於 ${expiresInMinutes} 分鐘後失效：\n${loginUrl}\n\n如果您沒有要求登入，請忽略這封信。`,
+  }),
+
+  submissionReceived: ({
+    displayName,
+    activityName,
+    title,
+    submissionUrl,
+  }) => ({
+    subject: `[${activityName}] 我們已收到您的投稿`,
+    text: `${displayName} 您好：\n\n感謝您向 ${activityName} 投稿「${title}」。您可以在此查看進度：\n${submissionUrl}`,
+  }),
+
+  invitation: ({ inviterName, activityName, title, inviteUrl, expiresAt }) => ({
+    subject: `[${activityName}] ${inviterName} 邀請您共同演講`,
+    text: `${inviterName} 邀請您在 ${activityName} 共同演講「${title}」。\n\n請於 ${formatDate(expiresAt)} 前回覆：\n${inviteUrl}`,
+  }),
+
+  decisionAccepted: ({
+    displayName,
+    activityName,
+    title,
+    confirmationDeadline,
+    submissionUrl,
+  }) => ({
+    subject: `[${activityName}] 您的投稿已獲錄取`,
+    text: `${displayName} 您好：\n\n恭喜！「${title}」已獲 ${activityName} 錄取。\n\n請於 ${formatDate(confirmationDeadline)} 前確認是否出席：\n${submissionUrl}`,
+  }),
+
+  decisionRejected: ({ displayName, activityName, title }) => ({
+    subject: `[${activityName}] 投稿結果通知`,
+    text: `${displayName} 您好：\n\n感謝您向 ${activityName} 投稿「${title}」。很遺憾，這次未能將其排入議程。`,
+  }),
+
+  decisionWaitlisted: ({ displayName, activityName, title }) => ({
+    subject: `[${activityName}] 您的投稿已列入備取`,
+    text: `${displayName} 您好：\n\n「${title}」已列入 ${activityName} 的備取名單，如有空缺我們會再通知您。`,
+  }),
+};
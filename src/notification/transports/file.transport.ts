@@ -0,0 +1,34 @@
+import { Logger } from "@nestjs/common";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { MailMessage, MailTransport } from "./mail-transport";
+
+/**
+ * Development transport: writes each email to `<dir>/<id>.eml` and logs a
+ * one-line summary instead of talking to a mail server
+ */
+export class FileTransport implements MailTransport {
+  private readonly logger = new Logger(FileTransport.name);
+
+  constructor(
+    private dir: string,
+    private from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const file = join(this.dir, `${message.id}.eml`);
+    const content = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\n");
+    await writeFile(file, content, "utf8");
+
+    this.logger.log(`Mail to ${message.to}: "${message.subject}" -> ${file}`);
+  }
+}
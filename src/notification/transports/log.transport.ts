@@ -0,0 +1,16 @@
+import { Logger } from "@nestjs/common";
+import { MailMessage, MailTransport } from "./mail-transport";
+
+/**
+ * Development transport: prints each email, body included, to the log
+ */
+export class LogTransport implements MailTransport {
+  private readonly logger = new Logger(LogTransport.name);
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Mail to ${message.to}: "${message.subject}"\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
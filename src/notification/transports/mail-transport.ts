@@ -0,0 +1,16 @@
+export const MAIL_TRANSPORT = Symbol("MAIL_TRANSPORT");
+
+export interface MailMessage {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers one rendered email. Implementations throw on failure so the
+ * outbox can retry.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
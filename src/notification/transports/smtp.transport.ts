@@ -0,0 +1,37 @@
+import { createTransport, Transporter } from "nodemailer";
+import { MailMessage, MailTransport } from "./mail-transport";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(private options: SmtpOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.pass }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      // Lets receiving servers drop duplicates if a retry races a slow send
+      messageId: `<${message.id}@${this.options.host}>`,
+    });
+  }
+}
@@ -0,0 +1,163 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  Allow,
+  IsString,
+  IsArray,
+  ArrayMinSize,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  Matches,
+  Min,
+  MaxLength,
+  IsNotEmpty,
+  ValidateNested,
+} from "class-validator";
+import { QuestionType } from "../../../generated/prisma/client";
+
+export class QuestionContentDto {
+  @ApiProperty({ example: "zh-TW" })
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }: { value: string }): string =>
+    typeof value === "string" ? value.toLowerCase() : value,
+  )
+  @MaxLength(15)
+  lang: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  label: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class QuestionOptionLabelDto {
+  @ApiProperty({ example: "zh-TW" })
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }: { value: string }): string =>
+    typeof value === "string" ? value.toLowerCase() : value,
+  )
+  @MaxLength(15)
+  lang: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  label: string;
+}
+
+export class QuestionOptionDto {
+  @ApiProperty({
+    example: "beginner",
+    description: "Stable value stored in answers",
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Matches(/^[a-z0-9_-]+$/, {
+    message:
+      "Option value must contain only lowercase letters, numbers, hyphens (-) and underscores (_)",
+  })
+  value: string;
+
+  @ApiProperty({ type: [QuestionOptionLabelDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuestionOptionLabelDto)
+  labels: QuestionOptionLabelDto[];
+}
+
+export class QuestionDto {
+  @ApiPropertyOptional({
+    description: "ID of an existing question to keep (and its answers)",
+  })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiProperty({ enum: QuestionType })
+  @IsEnum(QuestionType)
+  type: QuestionType;
+
+  @ApiProperty()
+  @IsBoolean()
+  required: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Minimum characters, or minimum selections for multiple choice",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minLength?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Maximum characters, or maximum selections for multiple choice",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxLength?: number;
+
+  @ApiPropertyOptional({ description: "Minimum value for number questions" })
+  @IsOptional()
+  @IsNumber()
+  minValue?: number;
+
+  @ApiPropertyOptional({ description: "Maximum value for number questions" })
+  @IsOptional()
+  @IsNumber()
+  maxValue?: number;
+
+  @ApiPropertyOptional({ type: [QuestionOptionDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuestionOptionDto)
+  options?: QuestionOptionDto[];
+
+  @ApiProperty({ type: [QuestionContentDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => QuestionContentDto)
+  contents: QuestionContentDto[];
+}
+
+export class ReplaceQuestionsDto {
+  @ApiProperty({
+    type: [QuestionDto],
+    description: "Complete, ordered list of questions for the activity",
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuestionDto)
+  questions: QuestionDto[];
+}
+
+export class AnswerDto {
+  @ApiProperty()
+  @IsUUID()
+  questionId: string;
+
+  @ApiProperty({
+    description:
+      "String for text, URL and single choice; string array for multiple choice; number for number questions; null to clear",
+  })
+  @Allow()
+  value: unknown;
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  Query,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from "@nestjs/swagger";
+import { QuestionService } from "./question.service";
+import { ReplaceQuestionsDto } from "./dto/question.dto";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+import { ActivityScope } from "../auth/decorators/activity-scope.decorator";
+import { Public } from "../auth/decorators/public.decorator";
+
+@ApiTags("Activity Questions")
+@Controller("activities")
+export class QuestionController {
+  constructor(private readonly questionService: QuestionService) {}
+
+  // ========== Public API ==========
+
+  @Public()
+  @Get("slug/:slug/questions")
+  @ApiOperation({ summary: "Get the CFP form questions of an activity" })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter labels",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findBySlug(@Param("slug") slug: string, @Query("lang") lang?: string) {
+    return this.questionService.findByActivitySlug(slug, lang);
+  }
+
+  // ========== Admin API ==========
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/questions")
+  @ApiOperation({ summary: "Get the CFP form questions (for admin)" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findAll(@Param("id", ParseUUIDPipe) id: string) {
+    return this.questionService.findByActivityId(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Put(":id/questions")
+  @ApiOperation({
+    summary: "Replace the ordered CFP form questions of an activity",
+  })
+  @ApiResponse({ status: 200, description: "Questions updated successfully" })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid input or validation failed",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async replace(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: ReplaceQuestionsDto,
+  ) {
+    return this.questionService.replace(id, dto);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { QuestionController } from "./question.controller";
+import { QuestionService } from "./question.service";
+
+@Module({
+  controllers: [QuestionController],
+  providers: [QuestionService],
+  exports: [QuestionService],
+})
+export class QuestionModule {}
@@ -0,0 +1,446 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from "@nestjs/common";
+import { isURL } from "class-validator";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  AnswerDto,
+  QuestionDto,
+  ReplaceQuestionsDto,
+} from "./dto/question.dto";
+import { withId } from "src/common/utils/db.util";
+import { validateContentLanguages } from "src/common/utils/language.util";
+import {
+  activityStateSelect,
+  assertActivityEditable,
+} from "../activity/utils/activity-state.util";
+import {
+  ActivityQuestion,
+  Prisma,
+  QuestionType,
+} from "../../generated/prisma/client";
+
+// Upper bounds applied when a text question has no explicit maxLength
+const DEFAULT_MAX_LENGTH: Partial<Record<QuestionType, number>> = {
+  [QuestionType.TEXT]: 255,
+  [QuestionType.LONG_TEXT]: 10000,
+  [QuestionType.URL]: 2048,
+};
+
+const CHOICE_TYPES: QuestionType[] = [
+  QuestionType.SINGLE_CHOICE,
+  QuestionType.MULTIPLE_CHOICE,
+];
+
+export interface QuestionOption {
+  value: string;
+  labels: Array<{ lang: string; label: string }>;
+}
+
+export interface NormalizedAnswer {
+  questionId: string;
+  value: Prisma.InputJsonValue | null;
+}
+
+@Injectable()
+export class QuestionService {
+  constructor(private prisma: PrismaService) {}
+
+  // admin: all languages
+  async findByActivityId(activityId: string) {
+    await this.findActivity(activityId);
+
+    return this.prisma.activityQuestion.findMany({
+      where: { activityId },
+      include: { contents: true },
+      orderBy: { position: "asc" },
+    });
+  }
+
+  // public: by slug, optionally narrowed to one language
+  async findByActivitySlug(slug: string, lang?: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { slug, publishedAt: { not: null }, deletedAt: null },
+      select: { id: true },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+
+    const normalizedLang = lang?.toLowerCase();
+    const questions = await this.prisma.activityQuestion.findMany({
+      where: { activityId: activity.id },
+      select: {
+        id: true,
+        position: true,
+        type: true,
+        required: true,
+        minLength: true,
+        maxLength: true,
+        minValue: true,
+        maxValue: true,
+        options: true,
+        contents: {
+          select: { lang: true, label: true, description: true },
+          where: normalizedLang ? { lang: normalizedLang } : undefined,
+        },
+      },
+      orderBy: { position: "asc" },
+    });
+
+    if (!normalizedLang) return questions;
+
+    return questions.map((question) => ({
+      ...question,
+      options: this.getOptions(question).map((option) => ({
+        value: option.value,
+        labels: option.labels.filter((l) => l.lang === normalizedLang),
+      })),
+    }));
+  }
+
+  /**
+   * Replace the ordered question set of an activity.
+   * Questions carrying an existing id are updated in place so their answers survive.
+   */
+  async replace(activityId: string, dto: ReplaceQuestionsDto) {
+    const activity = await this.findActivity(activityId);
+    assertActivityEditable(activity);
+
+    dto.questions.forEach((question, index) =>
+      this.validateQuestion(question, index, activity.supportedLanguages),
+    );
+
+    const existing = await this.prisma.activityQuestion.findMany({
+      where: { activityId },
+      select: { id: true },
+    });
+    const existingIds = new Set(existing.map((q) => q.id));
+
+    const unknownIds = dto.questions
+      .filter((q) => q.id && !existingIds.has(q.id))
+      .map((q) => q.id);
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(
+        `Questions do not belong to this activity: ${unknownIds.join(", ")}`,
+      );
+    }
+
+    const keptIds = dto.questions.flatMap((q) => (q.id ? [q.id] : []));
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.activityQuestion.deleteMany({
+        where: { activityId, id: { notIn: keptIds } },
+      });
+
+      for (const [position, question] of dto.questions.entries()) {
+        const data = {
+          position,
+          type: question.type,
+          required: question.required,
+          minLength: question.minLength ?? null,
+          maxLength: question.maxLength ?? null,
+          minValue: question.minValue ?? null,
+          maxValue: question.maxValue ?? null,
+          options: question.options
+            ? (question.options as unknown as Prisma.InputJsonValue)
+            : Prisma.DbNull,
+        };
+
+        const contents = question.contents.map((content) =>
+          withId({
+            lang: content.lang,
+            label: content.label,
+            description: content.description,
+          }),
+        );
+
+        if (question.id) {
+          await tx.activityQuestion.update({
+            where: { id: question.id },
+            data: {
+              ...data,
+              contents: { deleteMany: {}, create: contents },
+            },
+          });
+        } else {
+          await tx.activityQuestion.create({
+            data: withId({
+              activityId,
+              ...data,
+              contents: { create: contents },
+            }),
+          });
+        }
+      }
+
+      return tx.activityQuestion.findMany({
+        where: { activityId },
+        include: { contents: true },
+        orderBy: { position: "asc" },
+      });
+    });
+  }
+
+  /**
+   * Validate answers against the activity's question definitions.
+   * Unknown questions are rejected and, when requireAll is set, every required
+   * question must be answered. All problems are reported together.
+   */
+  async validateAnswers(
+    activityId: string,
+    answers: AnswerDto[],
+    requireAll: boolean,
+  ): Promise<NormalizedAnswer[]> {
+    const questions = await this.prisma.activityQuestion.findMany({
+      where: { activityId },
+      orderBy: { position: "asc" },
+    });
+    const questionMap = new Map(questions.map((q) => [q.id, q]));
+
+    const errors: string[] = [];
+    const normalized: NormalizedAnswer[] = [];
+    const seen = new Set<string>();
+
+    for (const answer of answers) {
+      const question = questionMap.get(answer.questionId);
+      if (!question) {
+        errors.push(`question ${answer.questionId} should not exist`);
+        continue;
+      }
+      if (seen.has(question.id)) {
+        errors.push(`question ${question.id} is answered more than once`);
+        continue;
+      }
+      seen.add(question.id);
+
+      if (this.isEmpty(answer.value)) {
+        normalized.push({ questionId: question.id, value: null });
+        continue;
+      }
+
+      const error = this.validateValue(question, answer.value);
+      if (error) {
+        errors.push(`question ${question.id} ${error}`);
+      } else {
+        normalized.push({
+          questionId: question.id,
+          value: answer.value as Prisma.InputJsonValue,
+        });
+      }
+    }
+
+    if (requireAll) {
+      for (const question of questions) {
+        if (!question.required) continue;
+
+        // Invalid answers were already reported above
+        const answered = normalized.find((a) => a.questionId === question.id);
+        if (answered ? answered.value === null : !seen.has(question.id)) {
+          errors.push(`question ${question.id} should not be empty`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    return normalized;
+  }
+
+  // ========== Private Methods (Validation Logic) ==========
+
+  private async findActivity(id: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { id },
+      select: { id: true, supportedLanguages: true, ...activityStateSelect },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    return activity;
+  }
+
+  private getOptions(question: Pick<ActivityQuestion, "options">) {
+    return (question.options ?? []) as unknown as QuestionOption[];
+  }
+
+  private isEmpty(value: unknown): boolean {
+    return (
+      value === null ||
+      value === undefined ||
+      (typeof value === "string" && value.trim() === "") ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  /**
+   * Validate a question definition; labels are required in every supported language
+   */
+  private validateQuestion(
+    question: QuestionDto,
+    index: number,
+    supportedLanguages: string[],
+  ): void {
+    const prefix = `Question ${index + 1}`;
+
+    validateContentLanguages(question.contents, supportedLanguages);
+    this.assertAllLanguagesCovered(
+      prefix,
+      question.contents,
+      supportedLanguages,
+    );
+
+    if (
+      question.minLength !== undefined &&
+      question.maxLength !== undefined &&
+      question.minLength > question.maxLength
+    ) {
+      throw new BadRequestException(
+        `${prefix}: minLength must not exceed maxLength`,
+      );
+    }
+
+    if (question.type === QuestionType.NUMBER) {
+      if (
+        question.minValue !== undefined &&
+        question.maxValue !== undefined &&
+        question.minValue > question.maxValue
+      ) {
+        throw new BadRequestException(
+          `${prefix}: minValue must not exceed maxValue`,
+        );
+      }
+    } else if (
+      question.minValue !== undefined ||
+      question.maxValue !== undefined
+    ) {
+      throw new BadRequestException(
+        `${prefix}: value limits only apply to number questions`,
+      );
+    }
+
+    if (!CHOICE_TYPES.includes(question.type)) {
+      if (question.options) {
+        throw new BadRequestException(
+          `${prefix}: options only apply to choice questions`,
+        );
+      }
+      return;
+    }
+
+    if (!question.options || question.options.length === 0) {
+      throw new BadRequestException(
+        `${prefix}: choice questions need at least one option`,
+      );
+    }
+
+    const values = question.options.map((o) => o.value);
+    const duplicateValues = values.filter(
+      (value, i) => values.indexOf(value) !== i,
+    );
+    if (duplicateValues.length > 0) {
+      throw new BadRequestException(
+        `${prefix}: duplicate option values: ${duplicateValues.join(", ")}`,
+      );
+    }
+
+    for (const option of question.options) {
+      validateContentLanguages(option.labels, supportedLanguages);
+      this.assertAllLanguagesCovered(
+        `${prefix}, option "${option.value}"`,
+        option.labels,
+        supportedLanguages,
+      );
+    }
+  }
+
+  private assertAllLanguagesCovered(
+    prefix: string,
+    contents: Array<{ lang: string }>,
+    supportedLanguages: string[],
+  ): void {
+    const missing = supportedLanguages.filter(
+      (lang) => !contents.some((c) => c.lang === lang),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `${prefix}: missing labels for languages: ${missing.join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Returns an error fragment, or null when the value is acceptable
+   */
+  private validateValue(
+    question: ActivityQuestion,
+    value: unknown,
+  ): string | null {
+    const maxLength = question.maxLength ?? DEFAULT_MAX_LENGTH[question.type];
+
+    switch (question.type) {
+      case QuestionType.TEXT:
+      case QuestionType.LONG_TEXT:
+      case QuestionType.URL: {
+        if (typeof value !== "string") return "must be a string";
+        if (question.minLength !== null && value.length < question.minLength) {
+          return `must be longer than or equal to ${question.minLength} characters`;
+        }
+        if (maxLength !== undefined && value.length > maxLength) {
+          return `must be shorter than or equal to ${maxLength} characters`;
+        }
+        if (
+          question.type === QuestionType.URL &&
+          !isURL(value, {
+            protocols: ["http", "https"],
+            require_protocol: true,
+          })
+        ) {
+          return "must be a URL address";
+        }
+        return null;
+      }
+
+      case QuestionType.NUMBER: {
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          return "must be a number";
+        }
+        if (question.minValue !== null && value < question.minValue) {
+          return `must not be less than ${question.minValue}`;
+        }
+        if (question.maxValue !== null && value > question.maxValue) {
+          return `must not be greater than ${question.maxValue}`;
+        }
+        return null;
+      }
+
+      case QuestionType.SINGLE_CHOICE: {
+        const allowed = this.getOptions(question).map((o) => o.value);
+        if (typeof value !== "string" || !allowed.includes(value)) {
+          return `must be one of the following values: ${allowed.join(", ")}`;
+        }
+        return null;
+      }
+
+      case QuestionType.MULTIPLE_CHOICE: {
+        const allowed = this.getOptions(question).map((o) => o.value);
+        if (
+          !Array.isArray(value) ||
+          !value.every((v) => typeof v === "string" && allowed.includes(v))
+        ) {
+          return `each value must be one of the following values: ${allowed.join(", ")}`;
+        }
+        if (new Set(value).size !== value.length) {
+          return "must not contain duplicate values";
+        }
+        if (question.minLength !== null && value.length < question.minLength) {
+          return `must contain at least ${question.minLength} elements`;
+        }
+        if (question.maxLength !== null && value.length > question.maxLength) {
+          return `must contain no more than ${question.maxLength} elements`;
+        }
+        return null;
+      }
+    }
+  }
+}
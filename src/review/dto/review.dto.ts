@@ -0,0 +1,144 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsString,
+  IsArray,
+  ArrayMinSize,
+  IsInt,
+  IsBoolean,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsUUID,
+  Min,
+  Max,
+  MaxLength,
+  IsNotEmpty,
+  ValidateNested,
+} from "class-validator";
+
+export class ReviewCriterionDto {
+  @ApiPropertyOptional({
+    description: "ID of an existing criterion to keep (and its scores)",
+  })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiProperty({ example: "Relevance" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ example: 1 })
+  @IsNumber()
+  @IsPositive()
+  weight: number;
+
+  @ApiProperty({ example: 1 })
+  @IsInt()
+  minScore: number;
+
+  @ApiProperty({ example: 5 })
+  @IsInt()
+  maxScore: number;
+}
+
+export class ReplaceReviewCriteriaDto {
+  @ApiProperty({
+    type: [ReviewCriterionDto],
+    description: "Complete, ordered rubric for the activity",
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewCriterionDto)
+  criteria: ReviewCriterionDto[];
+}
+
+export class AssignReviewersDto {
+  @ApiProperty({ type: [String] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID("all", { each: true })
+  submissionIds: string[];
+
+  @ApiProperty({ type: [String] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID("all", { each: true })
+  reviewerIds: string[];
+}
+
+export class AutoAssignReviewersDto {
+  @ApiProperty({ example: 3, description: "Reviews wanted per proposal" })
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  reviewsPerSubmission: number;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: "Reviewer pool; defaults to every member with review rights",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID("all", { each: true })
+  reviewerIds?: string[];
+
+  @ApiPropertyOptional({ description: "Preview the plan without saving it" })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Drop unreviewed assignments outside the pool and even out the load",
+  })
+  @IsOptional()
+  @IsBoolean()
+  rebalance?: boolean;
+}
+
+export class DeclareConflictDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  reason?: string;
+}
+
+export class ReviewScoreDto {
+  @ApiProperty()
+  @IsUUID()
+  criterionId: string;
+
+  @ApiProperty()
+  @IsInt()
+  score: number;
+}
+
+export class SubmitReviewDto {
+  @ApiProperty({ type: [ReviewScoreDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewScoreDto)
+  scores: ReviewScoreDto[];
+
+  @ApiProperty({ description: "Private comment for the program committee" })
+  @IsString()
+  @IsOptional()
+  comment?: string;
+
+  @ApiProperty({ minimum: 1, maximum: 5, description: "1 (low) to 5 (expert)" })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  confidence: number;
+}
@@ -0,0 +1,228 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  HttpCode,
+  Header,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from "@nestjs/swagger";
+import { ReviewService } from "./review.service";
+import {
+  AssignReviewersDto,
+  AutoAssignReviewersDto,
+  DeclareConflictDto,
+  SubmitReviewDto,
+} from "./dto/review.dto";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+import { ActivityScope } from "../auth/decorators/activity-scope.decorator";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+
+@ApiTags("Reviews")
+@Controller("reviews")
+export class ReviewController {
+  constructor(private readonly reviewService: ReviewService) {}
+
+  // ========== Reviewer API ==========
+
+  @Permissions("review:submit")
+  @ActivityScope("activity", "slug")
+  @Get("queue")
+  @ApiOperation({ summary: "List proposals waiting for my review" })
+  @ApiQuery({
+    name: "activity",
+    required: false,
+    description: "Optional activity slug to filter proposals",
+  })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  async findQueue(
+    @CurrentUser() user: AuthUser,
+    @Query("activity") activitySlug?: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.reviewService.findQueue(
+      user.id,
+      user.permissions.includes("submission:manage"),
+      activitySlug,
+      lang,
+    );
+  }
+
+  @Permissions("review:submit")
+  @ActivityScope("activity", "slug")
+  @Get("queue/export")
+  @Header("Content-Disposition", 'attachment; filename="review-queue.json"')
+  @ApiOperation({ summary: "Export the full proposals of my review queue" })
+  @ApiQuery({
+    name: "activity",
+    required: false,
+    description: "Optional activity slug to filter proposals",
+  })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  async exportQueue(
+    @CurrentUser() user: AuthUser,
+    @Query("activity") activitySlug?: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.reviewService.exportQueue(
+      user.id,
+      user.permissions.includes("submission:manage"),
+      activitySlug,
+      lang,
+    );
+  }
+
+  @Permissions("review:submit")
+  @ActivityScope("submissionId", "submission")
+  @Get("submissions/:submissionId")
+  @ApiOperation({
+    summary: "Get a proposal with the rubric and my review of it",
+  })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  @ApiResponse({ status: 403, description: "Proposal is not in your queue" })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async findForReview(
+    @CurrentUser() user: AuthUser,
+    @Param("submissionId", ParseUUIDPipe) submissionId: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.reviewService.findForReview(
+      user.id,
+      user.permissions.includes("submission:manage"),
+      submissionId,
+      lang,
+    );
+  }
+
+  @Permissions("review:submit")
+  @ActivityScope("submissionId", "submission")
+  @Put("submissions/:submissionId")
+  @ApiOperation({ summary: "Create or replace my review of a proposal" })
+  @ApiResponse({ status: 200, description: "Review saved" })
+  @ApiResponse({
+    status: 400,
+    description: "Scores do not match the rubric or validation failed",
+  })
+  @ApiResponse({ status: 403, description: "Proposal is not in your queue" })
+  async submitReview(
+    @CurrentUser() user: AuthUser,
+    @Param("submissionId", ParseUUIDPipe) submissionId: string,
+    @Body() dto: SubmitReviewDto,
+  ) {
+    return this.reviewService.submitReview(user.id, submissionId, dto);
+  }
+
+  @Permissions("review:submit")
+  @ActivityScope("submissionId", "submission")
+  @Put("submissions/:submissionId/conflict")
+  @ApiOperation({
+    summary: "Declare a conflict of interest and recuse from a proposal",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Conflict recorded; assignment and review removed",
+  })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async declareConflict(
+    @CurrentUser() user: AuthUser,
+    @Param("submissionId", ParseUUIDPipe) submissionId: string,
+    @Body() dto: DeclareConflictDto,
+  ) {
+    return this.reviewService.declareConflict(user.id, submissionId, dto);
+  }
+
+  @Permissions("review:submit")
+  @ActivityScope("submissionId", "submission")
+  @Delete("submissions/:submissionId/conflict")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Withdraw a declared conflict of interest" })
+  @ApiResponse({ status: 404, description: "Conflict not found" })
+  async withdrawConflict(
+    @CurrentUser() user: AuthUser,
+    @Param("submissionId", ParseUUIDPipe) submissionId: string,
+  ) {
+    return this.reviewService.withdrawConflict(user.id, submissionId);
+  }
+
+  // ========== Admin API ==========
+
+  @Permissions("submission:manage")
+  @Post("assignments")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Assign reviewers to proposals" })
+  @ApiResponse({
+    status: 400,
+    description: "Some members do not hold the review permission",
+  })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async assign(@Body() dto: AssignReviewersDto) {
+    return this.reviewService.assign(dto);
+  }
+
+  @Permissions("submission:manage")
+  @ActivityScope("slug", "slug")
+  @Post("activity/:slug/auto-assign")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Distribute submitted proposals across reviewers",
+    description:
+      "Skips own proposals, shared organizations and declared conflicts. " +
+      "Use dryRun to preview the plan.",
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Some members do not hold the review permission",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async autoAssign(
+    @Param("slug") slug: string,
+    @Body() dto: AutoAssignReviewersDto,
+  ) {
+    return this.reviewService.autoAssign(slug, dto);
+  }
+
+  @Permissions("submission:manage")
+  @ActivityScope("submissionId", "submission")
+  @Delete("assignments/:submissionId/:reviewerId")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Remove a reviewer assignment" })
+  @ApiResponse({ status: 404, description: "Assignment not found" })
+  async unassign(
+    @Param("submissionId", ParseUUIDPipe) submissionId: string,
+    @Param("reviewerId", ParseUUIDPipe) reviewerId: string,
+  ) {
+    return this.reviewService.unassign(submissionId, reviewerId);
+  }
+
+  @Permissions("submission:manage")
+  @ActivityScope("slug", "slug")
+  @Get("activity/:slug/scores")
+  @ApiOperation({ summary: "Aggregated weighted scores per proposal" })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async getScores(@Param("slug") slug: string, @Query("lang") lang?: string) {
+    return this.reviewService.getScores(slug, lang);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { ReviewController } from "./review.controller";
+import { RubricController } from "./rubric.controller";
+import { ReviewService } from "./review.service";
+
+@Module({
+  controllers: [ReviewController, RubricController],
+  providers: [ReviewService],
+})
+export class ReviewModule {}
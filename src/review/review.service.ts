@@ -0,0 +1,780 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  AssignReviewersDto,
+  AutoAssignReviewersDto,
+  DeclareConflictDto,
+  ReplaceReviewCriteriaDto,
+  SubmitReviewDto,
+} from "./dto/review.dto";
+import { withId } from "src/common/utils/db.util";
+import { redactSpeakerIdentity } from "./utils/redact.util";
+import {
+  PlannerSubmission,
+  hasConflict,
+  normaliseOrganization,
+  planAssignments,
+} from "./utils/assignment-planner";
+import {
+  activityStateSelect,
+  assertActivityEditable,
+} from "../activity/utils/activity-state.util";
+import {
+  Prisma,
+  ReviewCriterion,
+  SubmissionStatus,
+} from "../../generated/prisma/client";
+
+export const REVIEW_PERMISSION = "review:submit";
+
+interface PoolReviewer {
+  // null when the reviewer holds the review permission globally
+  activityIds: string[] | null;
+}
+
+const speakerProfileSelect = {
+  displayName: true,
+  organization: true,
+  jobTitle: true,
+  bio: true,
+  avatarUrl: true,
+  memberLinks: { select: { type: true, url: true } },
+};
+
+@Injectable()
+export class ReviewService {
+  constructor(private prisma: PrismaService) {}
+
+  // ========== Rubric ==========
+
+  async findCriteria(activityId: string) {
+    await this.findActivity(activityId);
+
+    return this.prisma.reviewCriterion.findMany({
+      where: { activityId },
+      orderBy: { position: "asc" },
+    });
+  }
+
+  /**
+   * Replace the ordered rubric of an activity.
+   * Criteria carrying an existing id are updated in place so their scores survive.
+   */
+  async replaceCriteria(activityId: string, dto: ReplaceReviewCriteriaDto) {
+    assertActivityEditable(await this.findActivity(activityId));
+
+    dto.criteria.forEach((criterion) => {
+      if (criterion.minScore >= criterion.maxScore) {
+        throw new BadRequestException(
+          `Criterion "${criterion.name}": minScore must be less than maxScore`,
+        );
+      }
+    });
+
+    const names = dto.criteria.map((c) => c.name);
+    const duplicateNames = names.filter((n, i) => names.indexOf(n) !== i);
+    if (duplicateNames.length > 0) {
+      throw new BadRequestException(
+        `Duplicate criterion names: ${duplicateNames.join(", ")}`,
+      );
+    }
+
+    const existing = await this.prisma.reviewCriterion.findMany({
+      where: { activityId },
+      select: { id: true },
+    });
+    const existingIds = new Set(existing.map((c) => c.id));
+
+    const unknownIds = dto.criteria
+      .filter((c) => c.id && !existingIds.has(c.id))
+      .map((c) => c.id);
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(
+        `Criteria do not belong to this activity: ${unknownIds.join(", ")}`,
+      );
+    }
+
+    const keptIds = dto.criteria.flatMap((c) => (c.id ? [c.id] : []));
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.reviewCriterion.deleteMany({
+        where: { activityId, id: { notIn: keptIds } },
+      });
+
+      for (const [position, criterion] of dto.criteria.entries()) {
+        const data = {
+          position,
+          name: criterion.name,
+          description: criterion.description,
+          weight: criterion.weight,
+          minScore: criterion.minScore,
+          maxScore: criterion.maxScore,
+        };
+
+        if (criterion.id) {
+          await tx.reviewCriterion.update({
+            where: { id: criterion.id },
+            data,
+          });
+        } else {
+          await tx.reviewCriterion.create({
+            data: withId({ activityId, ...data }),
+          });
+        }
+      }
+
+      return tx.reviewCriterion.findMany({
+        where: { activityId },
+        orderBy: { position: "asc" },
+      });
+    });
+  }
+
+  // ========== Assignment ==========
+
+  async assign(dto: AssignReviewersDto) {
+    const submissions = await this.findPlannerSubmissions({
+      id: { in: dto.submissionIds },
+    });
+    const missingSubmissions = dto.submissionIds.filter(
+      (id) => !submissions.some((s) => s.id === id),
+    );
+    if (missingSubmissions.length > 0) {
+      throw new NotFoundException(
+        `Submissions not found: ${missingSubmissions.join(", ")}`,
+      );
+    }
+
+    const reviewers = await this.findReviewerPool(
+      submissions.map((s) => s.activityId),
+      dto.reviewerIds,
+    );
+
+    let skippedConflicts = 0;
+    let skippedOutOfScope = 0;
+    const data = submissions.flatMap((submission) =>
+      reviewers.flatMap((reviewer) => {
+        if (!this.canReviewActivity(reviewer, submission.activityId)) {
+          skippedOutOfScope++;
+          return [];
+        }
+        if (hasConflict(submission, reviewer)) {
+          skippedConflicts++;
+          return [];
+        }
+        return [{ submissionId: submission.id, reviewerId: reviewer.id }];
+      }),
+    );
+
+    const { count } = await this.prisma.reviewAssignment.createMany({
+      data,
+      skipDuplicates: true,
+    });
+
+    return { created: count, skippedConflicts, skippedOutOfScope };
+  }
+
+  /**
+   * Spread the activity's submitted proposals across a reviewer pool.
+   * A dry run returns the plan without writing it.
+   */
+  async autoAssign(activitySlug: string, dto: AutoAssignReviewersDto) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { slug: activitySlug.toLowerCase() },
+      select: { id: true },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+
+    const submissions = await this.findPlannerSubmissions({
+      activityId: activity.id,
+      status: SubmissionStatus.SUBMITTED,
+    });
+    const reviewers = await this.findReviewerPool(
+      [activity.id],
+      dto.reviewerIds,
+    );
+
+    const existing = await this.prisma.reviewAssignment.findMany({
+      where: { submission: { activityId: activity.id } },
+      select: { submissionId: true, reviewerId: true },
+    });
+    const reviewed = await this.prisma.review.findMany({
+      where: { submission: { activityId: activity.id } },
+      select: { submissionId: true, reviewerId: true },
+    });
+    const reviewedKeys = new Set(
+      reviewed.map((r) => `${r.submissionId}:${r.reviewerId}`),
+    );
+
+    const plan = planAssignments(
+      submissions,
+      reviewers,
+      existing.map((a) => ({
+        ...a,
+        reviewed: reviewedKeys.has(`${a.submissionId}:${a.reviewerId}`),
+      })),
+      dto.reviewsPerSubmission,
+      dto.rebalance ?? false,
+    );
+
+    // Per-reviewer load within this activity, before and after the plan
+    const load = reviewers.map((reviewer) => {
+      const before = existing.filter(
+        (a) => a.reviewerId === reviewer.id,
+      ).length;
+      const after =
+        before +
+        plan.added.filter((a) => a.reviewerId === reviewer.id).length -
+        plan.removed.filter((a) => a.reviewerId === reviewer.id).length;
+      return {
+        reviewerId: reviewer.id,
+        displayName: reviewer.displayName,
+        before,
+        after,
+      };
+    });
+
+    if (!dto.dryRun) {
+      await this.prisma.$transaction([
+        ...plan.removed.map((a) =>
+          this.prisma.reviewAssignment.delete({
+            where: { submissionId_reviewerId: a },
+          }),
+        ),
+        this.prisma.reviewAssignment.createMany({
+          data: plan.added,
+          skipDuplicates: true,
+        }),
+      ]);
+    }
+
+    return { dryRun: dto.dryRun ?? false, ...plan, load };
+  }
+
+  async unassign(submissionId: string, reviewerId: string) {
+    const { count } = await this.prisma.reviewAssignment.deleteMany({
+      where: { submissionId, reviewerId },
+    });
+    if (count === 0) throw new NotFoundException("Assignment not found");
+  }
+
+  // ========== Reviewer ==========
+
+  /**
+   * Recuse from a proposal: drops the assignment and any review already given
+   */
+  async declareConflict(
+    reviewerId: string,
+    submissionId: string,
+    dto: DeclareConflictDto,
+  ) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: { id: true },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+
+    const [conflict] = await this.prisma.$transaction([
+      this.prisma.reviewConflict.upsert({
+        where: { submissionId_reviewerId: { submissionId, reviewerId } },
+        update: { reason: dto.reason ?? null },
+        create: { submissionId, reviewerId, reason: dto.reason },
+      }),
+      this.prisma.reviewAssignment.deleteMany({
+        where: { submissionId, reviewerId },
+      }),
+      this.prisma.review.deleteMany({ where: { submissionId, reviewerId } }),
+    ]);
+
+    return conflict;
+  }
+
+  async withdrawConflict(reviewerId: string, submissionId: string) {
+    const { count } = await this.prisma.reviewConflict.deleteMany({
+      where: { submissionId, reviewerId },
+    });
+    if (count === 0) throw new NotFoundException("Conflict not found");
+  }
+
+  /**
+   * fullAccess is set for admins, who see speaker identity even under blind review
+   */
+  async findQueue(
+    reviewerId: string,
+    fullAccess: boolean,
+    activitySlug?: string,
+    lang?: string,
+  ) {
+    const submissions = await this.prisma.submission.findMany({
+      where: this.queueWhere(reviewerId, activitySlug),
+      include: {
+        activity: { select: { slug: true, name: true, blindReview: true } },
+        contents: {
+          select: { lang: true, title: true },
+          where: lang ? { lang: lang.toLowerCase() } : undefined,
+        },
+        reviews: {
+          where: { reviewerId },
+          select: { id: true, updatedAt: true },
+        },
+      },
+      orderBy: { submittedAt: "asc" },
+    });
+
+    return submissions.map(({ reviews, ...submission }) =>
+      redactSpeakerIdentity(
+        { ...submission, myReview: reviews[0] ?? null },
+        submission.activity.blindReview && !fullAccess,
+      ),
+    );
+  }
+
+  /**
+   * Full proposals of the queue in one document for offline reading
+   */
+  async exportQueue(
+    reviewerId: string,
+    fullAccess: boolean,
+    activitySlug?: string,
+    lang?: string,
+  ) {
+    const submissions = await this.prisma.submission.findMany({
+      where: this.queueWhere(reviewerId, activitySlug),
+      include: {
+        activity: { select: { slug: true, name: true, blindReview: true } },
+        contents: {
+          select: { lang: true, title: true, abstract: true },
+          where: lang ? { lang: lang.toLowerCase() } : undefined,
+        },
+        answers: { select: { questionId: true, value: true } },
+        member: { select: speakerProfileSelect },
+        speakers: { select: { member: { select: speakerProfileSelect } } },
+      },
+      orderBy: { submittedAt: "asc" },
+    });
+
+    return {
+      exportedAt: new Date(),
+      submissions: submissions.map((submission) =>
+        redactSpeakerIdentity(
+          submission,
+          submission.activity.blindReview && !fullAccess,
+        ),
+      ),
+    };
+  }
+
+  async findForReview(
+    reviewerId: string,
+    fullAccess: boolean,
+    submissionId: string,
+    lang?: string,
+  ) {
+    await this.findReviewableSubmission(reviewerId, submissionId);
+
+    const submission = await this.prisma.submission.findUnique({
+      where: { id: submissionId },
+      include: {
+        activity: { select: { slug: true, name: true, blindReview: true } },
+        contents: {
+          select: { lang: true, title: true, abstract: true },
+          where: lang ? { lang: lang.toLowerCase() } : undefined,
+        },
+        answers: { select: { questionId: true, value: true } },
+        member: { select: speakerProfileSelect },
+        speakers: { select: { member: { select: speakerProfileSelect } } },
+        reviews: {
+          where: { reviewerId },
+          include: { scores: { select: { criterionId: true, score: true } } },
+        },
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+
+    const criteria = await this.prisma.reviewCriterion.findMany({
+      where: { activityId: submission.activityId },
+      orderBy: { position: "asc" },
+    });
+
+    const { reviews, ...rest } = submission;
+    return redactSpeakerIdentity(
+      { ...rest, criteria, myReview: reviews[0] ?? null },
+      submission.activity.blindReview && !fullAccess,
+    );
+  }
+
+  async submitReview(
+    reviewerId: string,
+    submissionId: string,
+    dto: SubmitReviewDto,
+  ) {
+    const submission = await this.findReviewableSubmission(
+      reviewerId,
+      submissionId,
+    );
+
+    const criteria = await this.prisma.reviewCriterion.findMany({
+      where: { activityId: submission.activityId },
+    });
+    if (criteria.length === 0) {
+      throw new BadRequestException(
+        "The activity has no review criteria defined",
+      );
+    }
+
+    this.validateScores(criteria, dto);
+
+    return this.prisma.$transaction(async (tx) => {
+      const review = await tx.review.upsert({
+        where: { submissionId_reviewerId: { submissionId, reviewerId } },
+        update: { comment: dto.comment ?? null, confidence: dto.confidence },
+        create: withId({
+          submissionId,
+          reviewerId,
+          comment: dto.comment,
+          confidence: dto.confidence,
+        }),
+      });
+
+      await tx.reviewScore.deleteMany({ where: { reviewId: review.id } });
+      await tx.reviewScore.createMany({
+        data: dto.scores.map((s) => ({
+          reviewId: review.id,
+          criterionId: s.criterionId,
+          score: s.score,
+        })),
+      });
+
+      return tx.review.findUnique({
+        where: { id: review.id },
+        include: { scores: { select: { criterionId: true, score: true } } },
+      });
+    });
+  }
+
+  // ========== Admin ==========
+
+  /**
+   * Weighted scores per proposal, highest first.
+   * Each score is normalised to 0..1 within its criterion's range, weighted,
+   * and reported as a percentage.
+   */
+  async getScores(activitySlug: string, lang?: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { slug: activitySlug.toLowerCase() },
+      select: { id: true },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+
+    const criteria = await this.prisma.reviewCriterion.findMany({
+      where: { activityId: activity.id },
+      orderBy: { position: "asc" },
+    });
+
+    const submissions = await this.prisma.submission.findMany({
+      where: { activityId: activity.id, status: SubmissionStatus.SUBMITTED },
+      select: {
+        id: true,
+        contents: {
+          select: { lang: true, title: true },
+          where: lang ? { lang: lang.toLowerCase() } : undefined,
+        },
+        member: { select: { id: true, displayName: true } },
+        assignments: { select: { reviewerId: true } },
+        reviews: {
+          select: {
+            reviewerId: true,
+            confidence: true,
+            comment: true,
+            reviewer: { select: { id: true, displayName: true } },
+            scores: { select: { criterionId: true, score: true } },
+          },
+        },
+      },
+    });
+
+    const results = submissions.map(({ reviews, assignments, ...rest }) => {
+      const weighted = reviews.map((review) =>
+        this.weightedScore(criteria, review.scores),
+      );
+
+      const criterionAverages = criteria.map((criterion) => {
+        const values = reviews.flatMap((review) =>
+          review.scores
+            .filter((s) => s.criterionId === criterion.id)
+            .map((s) => s.score),
+        );
+        return {
+          criterionId: criterion.id,
+          name: criterion.name,
+          average: this.average(values),
+        };
+      });
+
+      return {
+        ...rest,
+        reviewCount: reviews.length,
+        assignedCount: assignments.length,
+        weightedScore: this.average(weighted),
+        criterionAverages,
+        reviews: reviews.map((review, i) => ({
+          reviewer: review.reviewer,
+          confidence: review.confidence,
+          comment: review.comment,
+          weightedScore: weighted[i],
+          scores: review.scores,
+        })),
+      };
+    });
+
+    results.sort((a, b) => (b.weightedScore ?? -1) - (a.weightedScore ?? -1));
+
+    return { criteria, submissions: results };
+  }
+
+  // ========== Private Methods ==========
+
+  private async findActivity(id: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { id },
+      select: { id: true, ...activityStateSelect },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    return activity;
+  }
+
+  /**
+   * Members holding the review permission globally or for one of the given
+   * activities, optionally narrowed to given ids
+   */
+  private async findReviewerPool(
+    activityIds: string[],
+    reviewerIds?: string[],
+  ) {
+    const reviewRole: Prisma.MemberRoleWhereInput = {
+      role: {
+        permissions: {
+          some: { permission: { code: REVIEW_PERMISSION } },
+        },
+      },
+      OR: [{ activityId: null }, { activityId: { in: activityIds } }],
+    };
+
+    const members = await this.prisma.member.findMany({
+      where: {
+        ...(reviewerIds && { id: { in: reviewerIds } }),
+        memberRoles: { some: reviewRole },
+      },
+      select: {
+        id: true,
+        displayName: true,
+        organization: true,
+        memberRoles: { where: reviewRole, select: { activityId: true } },
+      },
+    });
+
+    const invalidReviewers = (reviewerIds ?? []).filter(
+      (id) => !members.some((r) => r.id === id),
+    );
+    if (invalidReviewers.length > 0) {
+      throw new BadRequestException(
+        `Members are not reviewers: ${invalidReviewers.join(", ")}`,
+      );
+    }
+
+    return members.map(({ memberRoles, ...member }) => ({
+      ...member,
+      activityIds: memberRoles.some((r) => r.activityId === null)
+        ? null
+        : memberRoles.map((r) => r.activityId!),
+    }));
+  }
+
+  private canReviewActivity(reviewer: PoolReviewer, activityId: string) {
+    return (
+      reviewer.activityIds === null || reviewer.activityIds.includes(activityId)
+    );
+  }
+
+  private async findPlannerSubmissions(
+    where: Prisma.SubmissionWhereInput,
+  ): Promise<Array<PlannerSubmission & { activityId: string }>> {
+    const submissions = await this.prisma.submission.findMany({
+      where,
+      select: {
+        id: true,
+        activityId: true,
+        member: { select: { id: true, organization: true } },
+        speakers: {
+          select: { member: { select: { id: true, organization: true } } },
+        },
+        conflicts: { select: { reviewerId: true } },
+      },
+    });
+
+    return submissions.map((submission) => {
+      const speakers = [
+        submission.member,
+        ...submission.speakers.map((s) => s.member),
+      ];
+      return {
+        id: submission.id,
+        activityId: submission.activityId,
+        speakerIds: speakers.map((m) => m.id),
+        organizations: speakers.flatMap((m) => {
+          const organization = normaliseOrganization(m.organization);
+          return organization ? [organization] : [];
+        }),
+        conflictedReviewerIds: submission.conflicts.map((c) => c.reviewerId),
+      };
+    });
+  }
+
+  private queueWhere(
+    reviewerId: string,
+    activitySlug?: string,
+  ): Prisma.SubmissionWhereInput {
+    return {
+      status: SubmissionStatus.SUBMITTED,
+      memberId: { not: reviewerId },
+      speakers: { none: { memberId: reviewerId } },
+      conflicts: { none: { reviewerId } },
+      OR: [
+        { assignments: { some: { reviewerId } } },
+        { activity: { openReview: true } },
+      ],
+      ...(activitySlug && {
+        activity: { slug: activitySlug.toLowerCase() },
+      }),
+    };
+  }
+
+  private isSpeaker(
+    submission: { memberId: string; speakers: Array<{ memberId: string }> },
+    memberId: string,
+  ): boolean {
+    return (
+      submission.memberId === memberId ||
+      submission.speakers.some((s) => s.memberId === memberId)
+    );
+  }
+
+  /**
+   * A reviewer may review a submitted proposal they are assigned to, or any
+   * proposal of an open-review activity, but never their own
+   */
+  private async findReviewableSubmission(
+    reviewerId: string,
+    submissionId: string,
+  ) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: {
+        id: true,
+        activityId: true,
+        memberId: true,
+        status: true,
+        activity: { select: { openReview: true } },
+        speakers: { select: { memberId: true } },
+        assignments: { where: { reviewerId }, select: { reviewerId: true } },
+        conflicts: { where: { reviewerId }, select: { reviewerId: true } },
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+
+    if (this.isSpeaker(submission, reviewerId)) {
+      throw new ForbiddenException("You cannot review your own proposal");
+    }
+    if (submission.conflicts.length > 0) {
+      throw new ForbiddenException(
+        "You declared a conflict of interest on this proposal",
+      );
+    }
+    if (
+      submission.assignments.length === 0 &&
+      !submission.activity.openReview
+    ) {
+      throw new ForbiddenException("This proposal is not in your queue");
+    }
+    if (submission.status !== SubmissionStatus.SUBMITTED) {
+      throw new BadRequestException("Only submitted proposals can be reviewed");
+    }
+
+    return submission;
+  }
+
+  /**
+   * Every criterion must be scored exactly once and within its range
+   */
+  private validateScores(
+    criteria: ReviewCriterion[],
+    dto: SubmitReviewDto,
+  ): void {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    for (const score of dto.scores) {
+      const criterion = criteria.find((c) => c.id === score.criterionId);
+      if (!criterion) {
+        errors.push(`criterion ${score.criterionId} should not exist`);
+        continue;
+      }
+      if (seen.has(criterion.id)) {
+        errors.push(`criterion ${criterion.id} is scored more than once`);
+        continue;
+      }
+      seen.add(criterion.id);
+
+      if (
+        score.score < criterion.minScore ||
+        score.score > criterion.maxScore
+      ) {
+        errors.push(
+          `criterion ${criterion.id} must be between ${criterion.minScore} and ${criterion.maxScore}`,
+        );
+      }
+    }
+
+    for (const criterion of criteria) {
+      if (!seen.has(criterion.id)) {
+        errors.push(`criterion ${criterion.id} should not be empty`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+
+  private weightedScore(
+    criteria: ReviewCriterion[],
+    scores: Array<{ criterionId: string; score: number }>,
+  ): number | null {
+    let total = 0;
+    let totalWeight = 0;
+
+    for (const criterion of criteria) {
+      const score = scores.find((s) => s.criterionId === criterion.id);
+      if (!score) continue;
+
+      const normalised =
+        (score.score - criterion.minScore) /
+        (criterion.maxScore - criterion.minScore);
+      total += normalised * criterion.weight;
+      totalWeight += criterion.weight;
+    }
+
+    return totalWeight > 0 ? (total / totalWeight) * 100 : null;
+  }
+
+  private average(values: Array<number | null>): number | null {
+    const present = values.filter((v): v is number => v !== null);
+    if (present.length === 0) return null;
+    return present.reduce((sum, v) => sum + v, 0) / present.length;
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  ParseUUIDPipe,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { ReviewService } from "./review.service";
+import { ReplaceReviewCriteriaDto } from "./dto/review.dto";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+import { ActivityScope } from "../auth/decorators/activity-scope.decorator";
+
+@ApiTags("Review Rubrics")
+@Controller("activities")
+export class RubricController {
+  constructor(private readonly reviewService: ReviewService) {}
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/review-criteria")
+  @ApiOperation({ summary: "Get the review rubric of an activity" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findAll(@Param("id", ParseUUIDPipe) id: string) {
+    return this.reviewService.findCriteria(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Put(":id/review-criteria")
+  @ApiOperation({ summary: "Replace the ordered review rubric of an activity" })
+  @ApiResponse({ status: 200, description: "Rubric updated successfully" })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid input or validation failed",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async replace(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: ReplaceReviewCriteriaDto,
+  ) {
+    return this.reviewService.replaceCriteria(id, dto);
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  hasConflict,
+  normaliseOrganization,
+  planAssignments,
+  PlannerReviewer,
+  PlannerSubmission,
+} from "./assignment-planner";
+
+const submission = (
+  id: string,
+  overrides: Partial<PlannerSubmission> = {},
+): PlannerSubmission => ({
+  id,
+  speakerIds: [],
+  organizations: [],
+  conflictedReviewerIds: [],
+  ...overrides,
+});
+
+const reviewer = (
+  id: string,
+  organization: string | null = null,
+): PlannerReviewer => ({ id, organization });
+
+const loadOf = (plan: { added: Array<{ reviewerId: string }> }) => {
+  const load = new Map<string, number>();
+  for (const { reviewerId } of plan.added) {
+    load.set(reviewerId, (load.get(reviewerId) ?? 0) + 1);
+  }
+  return load;
+};
+
+describe("assignment planner", () => {
+  describe("normaliseOrganization", () => {
+    it("should trim and lowercase", () => {
+      expect(normaliseOrganization("  Acme Inc ")).toBe("acme inc");
+    });
+
+    it("should treat blank values as no organization", () => {
+      expect(normaliseOrganization("   ")).toBeNull();
+      expect(normaliseOrganization(null)).toBeNull();
+      expect(normaliseOrganization(undefined)).toBeNull();
+    });
+  });
+
+  describe("hasConflict", () => {
+    const proposal = submission("s1", {
+      speakerIds: ["speaker"],
+      organizations: ["acme"],
+      conflictedReviewerIds: ["declared"],
+    });
+
+    it("should flag the reviewer's own proposal", () => {
+      expect(hasConflict(proposal, reviewer("speaker"))).toBe(true);
+    });
+
+    it("should flag a declared conflict", () => {
+      expect(hasConflict(proposal, reviewer("declared"))).toBe(true);
+    });
+
+    it("should flag a speaker's organization regardless of case", () => {
+      expect(hasConflict(proposal, reviewer("r1", " ACME "))).toBe(true);
+    });
+
+    it("should allow an unrelated reviewer", () => {
+      expect(hasConflict(proposal, reviewer("r1", "other"))).toBe(false);
+      expect(hasConflict(proposal, reviewer("r2"))).toBe(false);
+    });
+  });
+
+  describe("planAssignments", () => {
+    it("should spread the load evenly", () => {
+      const plan = planAssignments(
+        [submission("s1"), submission("s2"), submission("s3")],
+        [reviewer("r1"), reviewer("r2"), reviewer("r3")],
+        [],
+        2,
+        false,
+      );
+
+      expect(plan.added).toHaveLength(6);
+      expect(plan.removed).toEqual([]);
+      expect(plan.unfilled).toEqual([]);
+      expect([...loadOf(plan).values()]).toEqual([2, 2, 2]);
+      for (const id of ["s1", "s2", "s3"]) {
+        const reviewers = plan.added
+          .filter((a) => a.submissionId === id)
+          .map((a) => a.reviewerId);
+        expect(new Set(reviewers).size).toBe(2);
+      }
+    });
+
+    it("should skip conflicted reviewers and report what is missing", () => {
+      const plan = planAssignments(
+        [
+          submission("s1", {
+            speakerIds: ["r1"],
+            organizations: ["acme"],
+            conflictedReviewerIds: ["r4"],
+          }),
+        ],
+        [
+          reviewer("r1"),
+          reviewer("r2", "Acme"),
+          reviewer("r3"),
+          reviewer("r4"),
+        ],
+        [],
+        2,
+        false,
+      );
+
+      expect(plan.added).toEqual([{ submissionId: "s1", reviewerId: "r3" }]);
+      expect(plan.unfilled).toEqual([{ submissionId: "s1", missing: 1 }]);
+    });
+
+    it("should keep existing assignments without rebalance", () => {
+      const plan = planAssignments(
+        [submission("s1")],
+        [reviewer("r1"), reviewer("r2")],
+        [{ submissionId: "s1", reviewerId: "gone", reviewed: false }],
+        1,
+        false,
+      );
+
+      expect(plan).toEqual({ added: [], removed: [], unfilled: [] });
+    });
+
+    it("should drop unreviewed assignments outside the pool on rebalance", () => {
+      const plan = planAssignments(
+        [submission("s1"), submission("s2")],
+        [reviewer("r1"), reviewer("r2")],
+        [
+          { submissionId: "s1", reviewerId: "gone", reviewed: false },
+          { submissionId: "s2", reviewerId: "gone", reviewed: true },
+        ],
+        1,
+        true,
+      );
+
+      expect(plan.removed).toEqual([
+        { submissionId: "s1", reviewerId: "gone" },
+      ]);
+      expect(plan.added).toEqual([{ submissionId: "s1", reviewerId: "r1" }]);
+      expect(plan.unfilled).toEqual([]);
+    });
+
+    it("should move unreviewed work off overloaded reviewers on rebalance", () => {
+      const existing = [
+        { submissionId: "s1", reviewerId: "r1", reviewed: false },
+        { submissionId: "s2", reviewerId: "r1", reviewed: false },
+      ];
+      const submissions = [submission("s1"), submission("s2")];
+      const pool = [reviewer("r1"), reviewer("r2")];
+
+      expect(planAssignments(submissions, pool, existing, 1, false)).toEqual({
+        added: [],
+        removed: [],
+        unfilled: [],
+      });
+      expect(planAssignments(submissions, pool, existing, 1, true)).toEqual({
+        added: [{ submissionId: "s1", reviewerId: "r2" }],
+        removed: [{ submissionId: "s1", reviewerId: "r1" }],
+        unfilled: [],
+      });
+    });
+
+    it("should never move reviewed assignments", () => {
+      const plan = planAssignments(
+        [submission("s1"), submission("s2")],
+        [reviewer("r1"), reviewer("r2")],
+        [
+          { submissionId: "s1", reviewerId: "r1", reviewed: true },
+          { submissionId: "s2", reviewerId: "r1", reviewed: true },
+        ],
+        1,
+        true,
+      );
+
+      expect(plan).toEqual({ added: [], removed: [], unfilled: [] });
+    });
+
+    it("should not depend on the input order", () => {
+      const submissions = [
+        submission("s1"),
+        submission("s2"),
+        submission("s3"),
+      ];
+      const pool = [reviewer("r1"), reviewer("r2")];
+
+      expect(
+        planAssignments(
+          [...submissions].reverse(),
+          [...pool].reverse(),
+          [],
+          1,
+          false,
+        ),
+      ).toEqual(planAssignments(submissions, pool, [], 1, false));
+    });
+  });
+});
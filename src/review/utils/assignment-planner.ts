@@ -0,0 +1,204 @@
+export interface PlannerSubmission {
+  id: string;
+  // member ids of the owner and co-speakers
+  speakerIds: string[];
+  // organizations of the owner and co-speakers, already normalised
+  organizations: string[];
+  // reviewers who declared a conflict on this proposal
+  conflictedReviewerIds: string[];
+}
+
+export interface PlannerReviewer {
+  id: string;
+  organization: string | null;
+}
+
+export interface PlannerAssignment {
+  submissionId: string;
+  reviewerId: string;
+  reviewed: boolean;
+}
+
+export interface AssignmentPlan {
+  added: Array<{ submissionId: string; reviewerId: string }>;
+  removed: Array<{ submissionId: string; reviewerId: string }>;
+  unfilled: Array<{ submissionId: string; missing: number }>;
+}
+
+export const normaliseOrganization = (
+  organization: string | null | undefined,
+): string | null => {
+  const value = organization?.trim().toLowerCase();
+  return value ? value : null;
+};
+
+/**
+ * Whether a reviewer must not review a proposal: own proposal, same
+ * organization as a speaker, or a self-declared conflict
+ */
+export const hasConflict = (
+  submission: PlannerSubmission,
+  reviewer: PlannerReviewer,
+): boolean => {
+  if (submission.speakerIds.includes(reviewer.id)) return true;
+  if (submission.conflictedReviewerIds.includes(reviewer.id)) return true;
+
+  const organization = normaliseOrganization(reviewer.organization);
+  return (
+    organization !== null && submission.organizations.includes(organization)
+  );
+};
+
+/**
+ * Plan reviewer assignments so every proposal gets `perSubmission` reviewers
+ * from the pool, spreading the load as evenly as conflicts allow.
+ *
+ * Existing assignments are kept. With `rebalance`, unreviewed assignments to
+ * reviewers outside the pool (or now in conflict) are dropped, and unreviewed
+ * assignments are moved from overloaded to underloaded reviewers. The result is
+ * deterministic for the same input so a dry run previews exactly what a
+ * commit would do.
+ */
+export const planAssignments = (
+  submissions: PlannerSubmission[],
+  reviewers: PlannerReviewer[],
+  existing: PlannerAssignment[],
+  perSubmission: number,
+  rebalance: boolean,
+): AssignmentPlan => {
+  const pool = [...reviewers].sort((a, b) => a.id.localeCompare(b.id));
+  const poolIds = new Set(pool.map((r) => r.id));
+  const reviewerMap = new Map(pool.map((r) => [r.id, r]));
+
+  const removed: AssignmentPlan["removed"] = [];
+  const added: AssignmentPlan["added"] = [];
+
+  // submissionId -> assignments that stay
+  const current = new Map<string, PlannerAssignment[]>(
+    submissions.map((s) => [s.id, []]),
+  );
+
+  for (const assignment of existing) {
+    const list = current.get(assignment.submissionId);
+    if (!list) continue;
+
+    const reviewer = reviewerMap.get(assignment.reviewerId);
+    const submission = submissions.find(
+      (s) => s.id === assignment.submissionId,
+    )!;
+    const drop =
+      rebalance &&
+      !assignment.reviewed &&
+      (!poolIds.has(assignment.reviewerId) ||
+        (reviewer !== undefined && hasConflict(submission, reviewer)));
+
+    if (drop) {
+      removed.push({
+        submissionId: assignment.submissionId,
+        reviewerId: assignment.reviewerId,
+      });
+    } else {
+      list.push(assignment);
+    }
+  }
+
+  const load = new Map<string, number>(pool.map((r) => [r.id, 0]));
+  for (const list of current.values()) {
+    for (const assignment of list) {
+      if (load.has(assignment.reviewerId)) {
+        load.set(assignment.reviewerId, load.get(assignment.reviewerId)! + 1);
+      }
+    }
+  }
+
+  const pickReviewer = (submission: PlannerSubmission) => {
+    const taken = new Set(current.get(submission.id)!.map((a) => a.reviewerId));
+    let best: PlannerReviewer | null = null;
+    for (const reviewer of pool) {
+      if (taken.has(reviewer.id) || hasConflict(submission, reviewer)) {
+        continue;
+      }
+      if (!best || load.get(reviewer.id)! < load.get(best.id)!) {
+        best = reviewer;
+      }
+    }
+    return best;
+  };
+
+  const assign = (submission: PlannerSubmission, reviewer: PlannerReviewer) => {
+    current.get(submission.id)!.push({
+      submissionId: submission.id,
+      reviewerId: reviewer.id,
+      reviewed: false,
+    });
+    load.set(reviewer.id, load.get(reviewer.id)! + 1);
+    added.push({ submissionId: submission.id, reviewerId: reviewer.id });
+  };
+
+  // Fill the neediest proposals first so scarce reviewers go where they matter
+  const ordered = [...submissions].sort(
+    (a, b) =>
+      current.get(a.id)!.length - current.get(b.id)!.length ||
+      a.id.localeCompare(b.id),
+  );
+
+  const unfilled: AssignmentPlan["unfilled"] = [];
+  for (const submission of ordered) {
+    while (current.get(submission.id)!.length < perSubmission) {
+      const reviewer = pickReviewer(submission);
+      if (!reviewer) break;
+      assign(submission, reviewer);
+    }
+  }
+
+  // Move one unreviewed assignment away from `from`; each move strictly
+  // narrows the load spread, so repeating it terminates
+  const moveOne = (from: PlannerReviewer): boolean => {
+    for (const submission of ordered) {
+      const list = current.get(submission.id)!;
+      const index = list.findIndex(
+        (a) => a.reviewerId === from.id && !a.reviewed,
+      );
+      if (index === -1) continue;
+
+      const candidate = pickReviewer(submission);
+      if (!candidate || load.get(candidate.id)! + 1 >= load.get(from.id)!) {
+        continue;
+      }
+
+      list.splice(index, 1);
+      load.set(from.id, load.get(from.id)! - 1);
+
+      // Undo a planned addition instead of recording add + remove
+      const plannedIndex = added.findIndex(
+        (a) => a.submissionId === submission.id && a.reviewerId === from.id,
+      );
+      if (plannedIndex !== -1) {
+        added.splice(plannedIndex, 1);
+      } else {
+        removed.push({ submissionId: submission.id, reviewerId: from.id });
+      }
+
+      assign(submission, candidate);
+      return true;
+    }
+    return false;
+  };
+
+  if (rebalance) {
+    let moved = true;
+    while (moved) {
+      const busiestFirst = [...pool].sort(
+        (a, b) => load.get(b.id)! - load.get(a.id)! || a.id.localeCompare(b.id),
+      );
+      moved = busiestFirst.some((reviewer) => moveOne(reviewer));
+    }
+  }
+
+  for (const submission of ordered) {
+    const missing = perSubmission - current.get(submission.id)!.length;
+    if (missing > 0) unfilled.push({ submissionId: submission.id, missing });
+  }
+
+  return { added, removed, unfilled };
+};
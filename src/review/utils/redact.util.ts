@@ -0,0 +1,21 @@
+// Keys that identify the speakers of a proposal
+const IDENTITY_KEYS = ["memberId", "member", "speakers"] as const;
+
+type Redacted<T> = Omit<T, (typeof IDENTITY_KEYS)[number]>;
+
+/**
+ * Strip speaker identity from a reviewer-facing submission when the activity
+ * runs blind review. Admin endpoints never go through this.
+ */
+export const redactSpeakerIdentity = <T extends object>(
+  submission: T,
+  blind: boolean,
+): T | Redacted<T> => {
+  if (!blind) return submission;
+
+  const redacted = { ...submission };
+  for (const key of IDENTITY_KEYS) {
+    delete (redacted as Record<string, unknown>)[key];
+  }
+  return redacted as Redacted<T>;
+};
@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import {
+  IsString,
+  IsOptional,
+  MaxLength,
+  IsNotEmpty,
+  Matches,
+} from "class-validator";
+
+export class CreateRoleDto {
+  @ApiProperty({ example: "reviewer" })
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }): string =>
+    typeof value === "string" ? value.toLowerCase().trim() : value,
+  )
+  @MaxLength(50)
+  @Matches(/^[a-z0-9]+(?:[-_][a-z0-9]+)*$/, {
+    message:
+      "Role name must contain only lowercase letters, numbers, hyphens (-) and underscores (_)",
+  })
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class UpdateRoleDto extends PartialType(CreateRoleDto) {}
@@ -0,0 +1,87 @@
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { DiscoveryService, MetadataScanner, Reflector } from "@nestjs/core";
+import { PrismaService } from "../prisma/prisma.service";
+import { PERMISSIONS_KEY } from "../auth/decorators/permissions.decorator";
+import { withId } from "src/common/utils/db.util";
+
+/**
+ * Keeps the `permissions` table in step with the codes used by
+ * `@Permissions(...)` on controllers and their handlers
+ */
+@Injectable()
+export class PermissionCatalogService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PermissionCatalogService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private discovery: DiscoveryService,
+    private metadataScanner: MetadataScanner,
+    private reflector: Reflector,
+  ) {}
+
+  async onApplicationBootstrap() {
+    await this.sync();
+  }
+
+  /**
+   * Every permission code referenced by a controller, sorted
+   */
+  discoverCodes(): string[] {
+    const codes = new Set<string>();
+    const collect = (target: Parameters<Reflector["get"]>[1]) => {
+      const found = this.reflector.get<string[] | undefined>(
+        PERMISSIONS_KEY,
+        target,
+      );
+      found?.forEach((code) => codes.add(code));
+    };
+
+    for (const wrapper of this.discovery.getControllers()) {
+      const instance = wrapper.instance as object | undefined;
+      const metatype = wrapper.metatype;
+      if (!instance || !metatype) continue;
+
+      collect(metatype);
+      const prototype = Object.getPrototypeOf(instance) as Record<
+        string,
+        Parameters<Reflector["get"]>[1]
+      >;
+      for (const name of this.metadataScanner.getAllMethodNames(prototype)) {
+        collect(prototype[name]);
+      }
+    }
+
+    return [...codes].sort();
+  }
+
+  /**
+   * Insert codes missing from the table. Codes no longer used are only
+   * reported, since roles may still reference them.
+   */
+  async sync() {
+    const codes = this.discoverCodes();
+
+    const existing = await this.prisma.permission.findMany({
+      select: { code: true },
+    });
+    const existingCodes = new Set(existing.map((p) => p.code));
+
+    const missing = codes.filter((code) => !existingCodes.has(code));
+    if (missing.length > 0) {
+      await this.prisma.permission.createMany({
+        data: missing.map((code) =>
+          withId({ code, description: `${code.replace(":", " ")} permission` }),
+        ),
+        skipDuplicates: true,
+      });
+      this.logger.log(`Registered permissions: ${missing.join(", ")}`);
+    }
+
+    const unused = [...existingCodes].filter((code) => !codes.includes(code));
+    if (unused.length > 0) {
+      this.logger.warn(
+        `Permissions not used by any route: ${unused.sort().join(", ")}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Controller, Get } from "@nestjs/common";
+import { ApiOperation, ApiTags } from "@nestjs/swagger";
+import { RoleService } from "./role.service";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+
+@ApiTags("Roles")
+@Permissions("role:manage")
+@Controller("permissions")
+export class PermissionController {
+  constructor(private readonly roleService: RoleService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "List permissions discovered from the routes at startup",
+  })
+  async findPermissions() {
+    return this.roleService.findPermissions();
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  ParseBoolPipe,
+  DefaultValuePipe,
+  Query,
+  HttpCode,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from "@nestjs/swagger";
+import { RoleService } from "./role.service";
+import { CreateRoleDto, UpdateRoleDto } from "./dto/role.dto";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+
+@ApiTags("Roles")
+@Permissions("role:manage")
+@Controller("roles")
+export class RoleController {
+  constructor(private readonly roleService: RoleService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List roles with their permissions" })
+  async findAll() {
+    return this.roleService.findAll();
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get role by ID" })
+  @ApiResponse({ status: 404, description: "Role not found" })
+  async findOne(@Param("id", ParseUUIDPipe) id: string) {
+    return this.roleService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: "Create role" })
+  @ApiResponse({ status: 409, description: "Role name already exists" })
+  async create(@Body() dto: CreateRoleDto) {
+    return this.roleService.create(dto);
+  }
+
+  @Patch(":id")
+  @ApiOperation({ summary: "Update role" })
+  @ApiResponse({ status: 404, description: "Role not found" })
+  @ApiResponse({ status: 409, description: "Role name already exists" })
+  async update(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: UpdateRoleDto,
+  ) {
+    return this.roleService.update(id, dto);
+  }
+
+  @Delete(":id")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete role" })
+  @ApiQuery({
+    name: "force",
+    required: false,
+    description: "Delete even if members still hold the role",
+  })
+  @ApiResponse({ status: 404, description: "Role not found" })
+  @ApiResponse({ status: 409, description: "Role is still assigned" })
+  async remove(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query("force", new DefaultValuePipe(false), ParseBoolPipe) force: boolean,
+  ) {
+    return this.roleService.remove(id, force);
+  }
+
+  @Put(":id/permissions/:permissionId")
+  @ApiOperation({ summary: "Grant a permission to a role" })
+  @ApiResponse({ status: 404, description: "Role or permission not found" })
+  async attachPermission(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("permissionId", ParseUUIDPipe) permissionId: string,
+  ) {
+    return this.roleService.attachPermission(id, permissionId);
+  }
+
+  @Delete(":id/permissions/:permissionId")
+  @ApiOperation({ summary: "Revoke a permission from a role" })
+  @ApiResponse({
+    status: 404,
+    description: "Role does not have this permission",
+  })
+  async detachPermission(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("permissionId", ParseUUIDPipe) permissionId: string,
+  ) {
+    return this.roleService.detachPermission(id, permissionId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { DiscoveryModule } from "@nestjs/core";
+import { RoleController } from "./role.controller";
+import { PermissionController } from "./permission.controller";
+import { RoleService } from "./role.service";
+import { PermissionCatalogService } from "./permission-catalog.service";
+
+@Module({
+  imports: [DiscoveryModule],
+  controllers: [RoleController, PermissionController],
+  providers: [RoleService, PermissionCatalogService],
+})
+export class RoleModule {}
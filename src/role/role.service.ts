@@ -0,0 +1,185 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { CreateRoleDto, UpdateRoleDto } from "./dto/role.dto";
+import { withId } from "src/common/utils/db.util";
+import { AuditService } from "../audit/audit.service";
+
+const roleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  createdAt: true,
+  updatedAt: true,
+  permissions: {
+    select: {
+      permission: { select: { id: true, code: true, description: true } },
+    },
+    orderBy: { permission: { code: "asc" as const } },
+  },
+  _count: { select: { members: true } },
+};
+
+@Injectable()
+export class RoleService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  // ========== Roles ==========
+
+  async findAll() {
+    return this.prisma.role.findMany({
+      select: roleSelect,
+      orderBy: { name: "asc" },
+    });
+  }
+
+  async findOne(id: string) {
+    const role = await this.prisma.role.findUnique({
+      where: { id },
+      select: roleSelect,
+    });
+    if (!role) throw new NotFoundException("Role not found");
+    return role;
+  }
+
+  async create(dto: CreateRoleDto) {
+    await this.checkNameExists(dto.name);
+
+    const role = await this.prisma.role.create({
+      data: withId({ name: dto.name, description: dto.description }),
+      select: roleSelect,
+    });
+
+    await this.auditService.record({
+      action: "role.create",
+      entityType: "role",
+      entityId: role.id,
+      after: { name: role.name, description: role.description },
+    });
+    return role;
+  }
+
+  async update(id: string, dto: UpdateRoleDto) {
+    const role = await this.findOne(id);
+    if (dto.name && dto.name !== role.name) {
+      await this.checkNameExists(dto.name);
+    }
+
+    const updated = await this.prisma.role.update({
+      where: { id },
+      data: { name: dto.name, description: dto.description },
+      select: roleSelect,
+    });
+
+    await this.auditService.record({
+      action: "role.update",
+      entityType: "role",
+      entityId: id,
+      before: { name: role.name, description: role.description },
+      after: { name: updated.name, description: updated.description },
+    });
+    return updated;
+  }
+
+  /**
+   * Delete a role. A role still held by members is only deleted with `force`,
+   * which also takes it away from those members.
+   */
+  async remove(id: string, force: boolean) {
+    const role = await this.findOne(id);
+    if (role._count.members > 0 && !force) {
+      throw new ConflictException(
+        `Role "${role.name}" is assigned to ${role._count.members} member(s); pass force=true to delete it anyway`,
+      );
+    }
+
+    await this.prisma.role.delete({ where: { id } });
+
+    await this.auditService.record({
+      action: "role.delete",
+      entityType: "role",
+      entityId: id,
+      before: {
+        name: role.name,
+        description: role.description,
+        permissions: role.permissions.map((p) => p.permission.code),
+      },
+      metadata: { force, memberCount: role._count.members },
+    });
+  }
+
+  // ========== Permissions ==========
+
+  async findPermissions() {
+    return this.prisma.permission.findMany({
+      select: {
+        id: true,
+        code: true,
+        description: true,
+        _count: { select: { roles: true } },
+      },
+      orderBy: { code: "asc" },
+    });
+  }
+
+  async attachPermission(id: string, permissionId: string) {
+    await this.findOne(id);
+    const permission = await this.findPermission(permissionId);
+
+    await this.prisma.rolePermission.upsert({
+      where: {
+        role_id_permission_id: { role_id: id, permission_id: permissionId },
+      },
+      update: {},
+      create: { role_id: id, permission_id: permissionId },
+    });
+
+    await this.auditService.record({
+      action: "role.permission.attach",
+      entityType: "role",
+      entityId: id,
+      metadata: { permission: permission.code },
+    });
+    return this.findOne(id);
+  }
+
+  async detachPermission(id: string, permissionId: string) {
+    const { count } = await this.prisma.rolePermission.deleteMany({
+      where: { role_id: id, permission_id: permissionId },
+    });
+    if (count === 0) {
+      throw new NotFoundException("Role does not have this permission");
+    }
+
+    await this.auditService.record({
+      action: "role.permission.detach",
+      entityType: "role",
+      entityId: id,
+      metadata: { permissionId },
+    });
+    return this.findOne(id);
+  }
+
+  // ========== Private Methods ==========
+
+  private async findPermission(id: string) {
+    const permission = await this.prisma.permission.findUnique({
+      where: { id },
+    });
+    if (!permission) throw new NotFoundException("Permission not found");
+    return permission;
+  }
+
+  private async checkNameExists(name: string): Promise<void> {
+    const existing = await this.prisma.role.findUnique({ where: { name } });
+    if (existing) {
+      throw new ConflictException(`Role "${name}" already exists`);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsString,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Min,
+  MaxLength,
+  IsNotEmpty,
+  ValidateNested,
+} from "class-validator";
+
+export class RoomDto {
+  @ApiPropertyOptional({
+    description: "ID of an existing room to keep (and its sessions)",
+  })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiProperty({ example: "Main Hall" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: 300 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+}
+
+export class ReplaceRoomsDto {
+  @ApiProperty({
+    type: [RoomDto],
+    description: "Complete, ordered room list for the activity",
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RoomDto)
+  rooms: RoomDto[];
+}
+
+export class TimeSlotDto {
+  @ApiPropertyOptional({
+    description: "ID of an existing slot to keep (and its sessions)",
+  })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startAt: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endAt: Date;
+}
+
+export class ReplaceTimeSlotsDto {
+  @ApiProperty({
+    type: [TimeSlotDto],
+    description: "Complete set of time slots for the activity",
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeSlotDto)
+  slots: TimeSlotDto[];
+}
+
+export class PlaceSessionDto {
+  @ApiProperty({ description: "An accepted proposal of the activity" })
+  @IsUUID()
+  submissionId: string;
+
+  @ApiProperty()
+  @IsUUID()
+  roomId: string;
+
+  @ApiProperty()
+  @IsUUID()
+  slotId: string;
+
+  @ApiPropertyOptional({
+    example: 40,
+    description: "Session length; defaults to the length of the slot",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional({ example: "Frontend" })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  track?: string;
+
+  @ApiPropertyOptional({
+    description: "Place the session even if it causes conflicts",
+  })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
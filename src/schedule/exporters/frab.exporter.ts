@@ -0,0 +1,104 @@
+import { FeedSession, ScheduleFeed } from "./schedule-feed";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Frab times are wall-clock HH:MM; the feed has no timezone so UTC is used
+const formatTime = (date: Date) =>
+  `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+
+const formatDuration = (startAt: Date, endAt: Date) => {
+  const minutes = Math.round((endAt.getTime() - startAt.getTime()) / 60000);
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const element = (name: string, value: string | null | undefined) =>
+  value ? `<${name}>${escapeXml(value)}</${name}>` : `<${name}/>`;
+
+const renderEvent = (feed: ScheduleFeed, session: FeedSession, index: number) =>
+  [
+    `<event guid="${session.id}" id="${index + 1}">`,
+    element("date", session.startAt.toISOString()),
+    element("start", formatTime(session.startAt)),
+    element("duration", formatDuration(session.startAt, session.endAt)),
+    element("room", session.room.name),
+    element("slug", `${feed.slug}-${session.id}`),
+    element("url", `${feed.url}#${session.id}`),
+    element("title", session.title),
+    "<subtitle/>",
+    element("track", session.track),
+    element("type", "lecture"),
+    element("language", session.lang),
+    element("abstract", session.abstract),
+    "<description/>",
+    "<persons>",
+    ...session.speakers.map(
+      (speaker) =>
+        `<person guid="${speaker.id}">${escapeXml(speaker.name)}</person>`,
+    ),
+    "</persons>",
+    "<links/>",
+    "<attachments/>",
+    "</event>",
+  ].join("");
+
+/**
+ * Frab/Pentabarf schedule XML, the format read by most conference apps
+ */
+export const toFrabXml = (feed: ScheduleFeed): string => {
+  const days = [
+    ...new Set(feed.sessions.map((session) => toDay(session.startAt))),
+  ].sort();
+
+  const dayElements = days.map((day, dayIndex) => {
+    const sessions = feed.sessions.filter((s) => toDay(s.startAt) === day);
+    const start = sessions[0].startAt;
+    const end = new Date(Math.max(...sessions.map((s) => s.endAt.getTime())));
+
+    const rooms = feed.rooms
+      .map((room) => {
+        const events = sessions
+          .filter((s) => s.room.id === room.id)
+          .map((s) => renderEvent(feed, s, feed.sessions.indexOf(s)));
+        return events.length > 0
+          ? `<room name="${escapeXml(room.name)}" guid="${room.id}">${events.join("")}</room>`
+          : "";
+      })
+      .join("");
+
+    return `<day index="${dayIndex + 1}" date="${day}" start="${start.toISOString()}" end="${end.toISOString()}">${rooms}</day>`;
+  });
+
+  const dayCount =
+    Math.round(
+      (Date.parse(toDay(feed.endAt)) - Date.parse(toDay(feed.startAt))) /
+        86400000,
+    ) + 1;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<schedule>",
+    element("version", feed.lastModified.toISOString()),
+    "<conference>",
+    element("acronym", feed.slug),
+    element("title", feed.title),
+    element("start", toDay(feed.startAt)),
+    element("end", toDay(feed.endAt)),
+    element("days", String(dayCount)),
+    element("timeslot_duration", "00:05"),
+    element("base_url", feed.url),
+    "</conference>",
+    ...dayElements,
+    "</schedule>",
+    "",
+  ].join("\n");
+};
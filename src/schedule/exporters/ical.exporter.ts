@@ -0,0 +1,70 @@
+import { ScheduleFeed } from "./schedule-feed";
+
+const formatDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// RFC 5545 §3.3.11: backslash, semicolon, comma and newlines must be escaped
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+export const toICalendar = (feed: ScheduleFeed): string => {
+  const stamp = formatDate(feed.lastModified);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${feed.slug}//Schedule//${feed.lang.toUpperCase()}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(feed.title)}`,
+    ...feed.sessions.flatMap((session) => {
+      const speakers = session.speakers.map((s) => s.name).join(", ");
+      const description = [speakers, session.abstract]
+        .filter(Boolean)
+        .join("\n\n");
+
+      return [
+        "BEGIN:VEVENT",
+        `UID:${session.id}@${feed.slug}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatDate(session.startAt)}`,
+        `DTEND:${formatDate(session.endAt)}`,
+        `SUMMARY:${escapeText(session.title)}`,
+        ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+        `LOCATION:${escapeText(session.room.name)}`,
+        ...(session.track ? [`CATEGORIES:${escapeText(session.track)}`] : []),
+        `URL:${feed.url}#${session.id}`,
+        "END:VEVENT",
+      ];
+    }),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,43 @@
+import { ScheduleFeed } from "./schedule-feed";
+
+// Bump when the shape below changes in a way consumers must handle
+const FORMAT_VERSION = 1;
+
+/**
+ * Stable JSON feed for the website and mobile app; unlike the API responses,
+ * its shape only changes together with `version`
+ */
+export const toJsonFeed = (feed: ScheduleFeed) => ({
+  version: FORMAT_VERSION,
+  generatedAt: feed.lastModified.toISOString(),
+  activity: {
+    slug: feed.slug,
+    title: feed.title,
+    description: feed.description,
+    lang: feed.lang,
+    startAt: feed.startAt.toISOString(),
+    endAt: feed.endAt.toISOString(),
+    url: feed.url,
+  },
+  rooms: feed.rooms.map((room) => ({
+    id: room.id,
+    name: room.name,
+    capacity: room.capacity,
+  })),
+  sessions: feed.sessions.map((session) => ({
+    id: session.id,
+    title: session.title,
+    abstract: session.abstract,
+    lang: session.lang,
+    startAt: session.startAt.toISOString(),
+    endAt: session.endAt.toISOString(),
+    roomId: session.room.id,
+    track: session.track,
+    speakers: session.speakers.map((speaker) => ({
+      id: speaker.id,
+      name: speaker.name,
+      organization: speaker.organization,
+      avatarUrl: speaker.avatarUrl,
+    })),
+  })),
+});
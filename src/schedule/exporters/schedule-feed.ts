@@ -0,0 +1,36 @@
+export interface FeedSpeaker {
+  id: string;
+  name: string;
+  organization: string | null;
+  avatarUrl: string | null;
+}
+
+export interface FeedSession {
+  id: string;
+  title: string;
+  abstract: string | null;
+  // language of the title and abstract, which may differ from the one asked for
+  lang: string | null;
+  startAt: Date;
+  endAt: Date;
+  room: { id: string; name: string };
+  track: string | null;
+  speakers: FeedSpeaker[];
+}
+
+/**
+ * Published agenda flattened to a single language, the common input of every
+ * export format
+ */
+export interface ScheduleFeed {
+  slug: string;
+  title: string;
+  description: string | null;
+  lang: string;
+  startAt: Date;
+  endAt: Date;
+  url: string;
+  lastModified: Date;
+  rooms: Array<{ id: string; name: string; capacity: number | null }>;
+  sessions: FeedSession[];
+}
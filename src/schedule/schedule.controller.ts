@@ -0,0 +1,281 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  HttpCode,
+  Res,
+} from "@nestjs/common";
+import type { Response } from "express";
+import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from "@nestjs/swagger";
+import { ScheduleService } from "./schedule.service";
+import {
+  PlaceSessionDto,
+  ReplaceRoomsDto,
+  ReplaceTimeSlotsDto,
+} from "./dto/schedule.dto";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+import { ActivityScope } from "../auth/decorators/activity-scope.decorator";
+import { Public } from "src/auth/decorators/public.decorator";
+import { ScheduleFeed } from "./exporters/schedule-feed";
+import { toICalendar } from "./exporters/ical.exporter";
+import { toFrabXml } from "./exporters/frab.exporter";
+import { toJsonFeed } from "./exporters/json.exporter";
+
+/**
+ * Let clients and proxies cache feeds for a few minutes. Express derives an
+ * ETag from the body and answers conditional requests with 304 on its own.
+ */
+const setFeedHeaders = (
+  res: Response,
+  feed: ScheduleFeed,
+  contentType: string,
+) => {
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Cache-Control", "public, max-age=300");
+  res.setHeader("Last-Modified", feed.lastModified.toUTCString());
+  res.setHeader("Content-Language", feed.lang);
+};
+
+@ApiTags("Schedule")
+@Controller("activities")
+export class ScheduleController {
+  constructor(private readonly scheduleService: ScheduleService) {}
+
+  // ========== Public API ==========
+
+  @Public()
+  @Get("slug/:slug/schedule")
+  @ApiOperation({ summary: "Get the published agenda of an activity" })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Activity not found or schedule not published",
+  })
+  async findPublished(
+    @Param("slug") slug: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.scheduleService.findPublishedBySlug(slug, lang);
+  }
+
+  @Public()
+  @Get("slug/:slug/schedule.ics")
+  @ApiOperation({
+    summary: "iCalendar feed of the published agenda",
+    description: "Subscribe to the whole event or filter by room or track",
+  })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code for titles and abstracts",
+  })
+  @ApiQuery({ name: "room", required: false, description: "Room ID" })
+  @ApiQuery({ name: "track", required: false, description: "Track name" })
+  @ApiResponse({
+    status: 404,
+    description: "Activity not found or schedule not published",
+  })
+  async exportICalendar(
+    @Res({ passthrough: true }) res: Response,
+    @Param("slug") slug: string,
+    @Query("lang") lang?: string,
+    @Query("room", new ParseUUIDPipe({ optional: true })) roomId?: string,
+    @Query("track") track?: string,
+  ) {
+    const feed = await this.scheduleService.findFeed(slug, lang, {
+      roomId,
+      track,
+    });
+    setFeedHeaders(res, feed, "text/calendar; charset=utf-8");
+    return toICalendar(feed);
+  }
+
+  @Public()
+  @Get("slug/:slug/schedule.xml")
+  @ApiOperation({ summary: "Frab-compatible XML of the published agenda" })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code for titles and abstracts",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Activity not found or schedule not published",
+  })
+  async exportFrab(
+    @Res({ passthrough: true }) res: Response,
+    @Param("slug") slug: string,
+    @Query("lang") lang?: string,
+  ) {
+    const feed = await this.scheduleService.findFeed(slug, lang);
+    setFeedHeaders(res, feed, "application/xml; charset=utf-8");
+    return toFrabXml(feed);
+  }
+
+  @Public()
+  @Get("slug/:slug/schedule.json")
+  @ApiOperation({ summary: "Versioned JSON feed of the published agenda" })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code for titles and abstracts",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Activity not found or schedule not published",
+  })
+  async exportJson(
+    @Res({ passthrough: true }) res: Response,
+    @Param("slug") slug: string,
+    @Query("lang") lang?: string,
+  ) {
+    const feed = await this.scheduleService.findFeed(slug, lang);
+    setFeedHeaders(res, feed, "application/json; charset=utf-8");
+    return toJsonFeed(feed);
+  }
+
+  // ========== Admin API ==========
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/rooms")
+  @ApiOperation({ summary: "List the rooms of an activity" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findRooms(@Param("id", ParseUUIDPipe) id: string) {
+    return this.scheduleService.findRooms(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Put(":id/rooms")
+  @ApiOperation({ summary: "Replace the ordered room list of an activity" })
+  @ApiResponse({
+    status: 400,
+    description: "Duplicate names or rooms of another activity",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async replaceRooms(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: ReplaceRoomsDto,
+  ) {
+    return this.scheduleService.replaceRooms(id, dto);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/time-slots")
+  @ApiOperation({ summary: "List the time slots of an activity" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findTimeSlots(@Param("id", ParseUUIDPipe) id: string) {
+    return this.scheduleService.findTimeSlots(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Put(":id/time-slots")
+  @ApiOperation({ summary: "Replace the time slots of an activity" })
+  @ApiResponse({
+    status: 400,
+    description: "A slot falls outside the activity or ends before it starts",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async replaceTimeSlots(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: ReplaceTimeSlotsDto,
+  ) {
+    return this.scheduleService.replaceTimeSlots(id, dto);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/schedule")
+  @ApiOperation({
+    summary: "Get the working agenda with conflicts and unscheduled proposals",
+  })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findSchedule(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.scheduleService.findSchedule(id, lang);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Get(":id/schedule/conflicts")
+  @ApiOperation({ summary: "List conflicts in the current agenda" })
+  async findConflicts(@Param("id", ParseUUIDPipe) id: string) {
+    return this.scheduleService.findConflicts(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/schedule/sessions")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Place an accepted proposal in a room and slot, or move it",
+  })
+  @ApiResponse({ status: 400, description: "Proposal is not accepted" })
+  @ApiResponse({
+    status: 404,
+    description: "Activity, submission, room or slot not found",
+  })
+  @ApiResponse({
+    status: 409,
+    description: "Placement conflicts with the schedule; retry with force",
+  })
+  async placeSession(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: PlaceSessionDto,
+  ) {
+    return this.scheduleService.placeSession(id, dto);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Delete(":id/schedule/sessions/:sessionId")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Remove a session from the agenda" })
+  @ApiResponse({ status: 404, description: "Session not found" })
+  async removeSession(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("sessionId", ParseUUIDPipe) sessionId: string,
+  ) {
+    return this.scheduleService.removeSession(id, sessionId);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/schedule/publish")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Publish the agenda" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async publish(@Param("id", ParseUUIDPipe) id: string) {
+    return this.scheduleService.publish(id);
+  }
+
+  @Permissions("activity:manage")
+  @ActivityScope("id")
+  @Post(":id/schedule/unpublish")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Hide the agenda from the public" })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async unpublish(@Param("id", ParseUUIDPipe) id: string) {
+    return this.scheduleService.unpublish(id);
+  }
+}
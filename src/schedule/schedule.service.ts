@@ -0,0 +1,649 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  PlaceSessionDto,
+  ReplaceRoomsDto,
+  ReplaceTimeSlotsDto,
+} from "./dto/schedule.dto";
+import { uuidv7 } from "uuidv7";
+import { withId } from "src/common/utils/db.util";
+import { PlacedSession, detectConflicts } from "./utils/conflict-detector";
+import { ScheduleFeed } from "./exporters/schedule-feed";
+import { pickContent } from "src/common/utils/language.util";
+import { buildClientUrl } from "src/common/utils/url.util";
+import {
+  activityStateSelect,
+  assertActivityEditable,
+} from "../activity/utils/activity-state.util";
+import {
+  ConfirmationStatus,
+  SubmissionDecision,
+  SubmissionStatus,
+} from "../../generated/prisma/client";
+
+const publicSpeakerSelect = {
+  id: true,
+  displayName: true,
+  organization: true,
+  jobTitle: true,
+  bio: true,
+  avatarUrl: true,
+};
+
+@Injectable()
+export class ScheduleService {
+  constructor(private prisma: PrismaService) {}
+
+  // ========== Rooms ==========
+
+  async findRooms(activityId: string) {
+    await this.findActivity(activityId);
+
+    return this.prisma.room.findMany({
+      where: { activityId },
+      orderBy: { position: "asc" },
+    });
+  }
+
+  /**
+   * Replace the ordered room list of an activity.
+   * Rooms carrying an existing id are updated in place so their sessions survive.
+   */
+  async replaceRooms(activityId: string, dto: ReplaceRoomsDto) {
+    await this.findEditableActivity(activityId);
+
+    const names = dto.rooms.map((r) => r.name.trim().toLowerCase());
+    const duplicates = dto.rooms
+      .filter((_, i) => names.indexOf(names[i]) !== i)
+      .map((r) => r.name);
+    if (duplicates.length > 0) {
+      throw new BadRequestException(
+        `Duplicate room names: ${duplicates.join(", ")}`,
+      );
+    }
+
+    const keptIds = await this.assertOwnIds(
+      "room",
+      activityId,
+      dto.rooms.map((r) => r.id),
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.room.deleteMany({
+        where: { activityId, id: { notIn: keptIds } },
+      });
+
+      // Free the names first so renames within the list cannot collide
+      for (const id of keptIds) {
+        await tx.room.update({ where: { id }, data: { name: id } });
+      }
+
+      for (const [position, room] of dto.rooms.entries()) {
+        const data = {
+          position,
+          name: room.name.trim(),
+          capacity: room.capacity ?? null,
+        };
+
+        if (room.id) {
+          await tx.room.update({ where: { id: room.id }, data });
+        } else {
+          await tx.room.create({ data: withId({ activityId, ...data }) });
+        }
+      }
+
+      return tx.room.findMany({
+        where: { activityId },
+        orderBy: { position: "asc" },
+      });
+    });
+  }
+
+  // ========== Time Slots ==========
+
+  async findTimeSlots(activityId: string) {
+    await this.findActivity(activityId);
+
+    return this.prisma.timeSlot.findMany({
+      where: { activityId },
+      orderBy: [{ startAt: "asc" }, { endAt: "asc" }],
+    });
+  }
+
+  /**
+   * Replace the time slots of an activity; every slot must fall inside the
+   * activity's start and end
+   */
+  async replaceTimeSlots(activityId: string, dto: ReplaceTimeSlotsDto) {
+    const activity = await this.findEditableActivity(activityId);
+
+    dto.slots.forEach((slot, index) => {
+      const prefix = `Slot ${index + 1}`;
+      if (slot.endAt <= slot.startAt) {
+        throw new BadRequestException(`${prefix}: end must be after start`);
+      }
+      if (slot.startAt < activity.startAt || slot.endAt > activity.endAt) {
+        throw new BadRequestException(
+          `${prefix}: must fall within the activity's start and end`,
+        );
+      }
+    });
+
+    const keptIds = await this.assertOwnIds(
+      "timeSlot",
+      activityId,
+      dto.slots.map((s) => s.id),
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.timeSlot.deleteMany({
+        where: { activityId, id: { notIn: keptIds } },
+      });
+
+      for (const slot of dto.slots) {
+        const data = { startAt: slot.startAt, endAt: slot.endAt };
+
+        if (slot.id) {
+          await tx.timeSlot.update({ where: { id: slot.id }, data });
+        } else {
+          await tx.timeSlot.create({ data: withId({ activityId, ...data }) });
+        }
+      }
+
+      return tx.timeSlot.findMany({
+        where: { activityId },
+        orderBy: [{ startAt: "asc" }, { endAt: "asc" }],
+      });
+    });
+  }
+
+  // ========== Sessions ==========
+
+  // admin: full agenda with conflicts and accepted proposals not yet placed
+  async findSchedule(activityId: string, lang?: string) {
+    const activity = await this.findActivity(activityId);
+
+    const [rooms, slots, sessions, unscheduled, conflicts] = await Promise.all([
+      this.prisma.room.findMany({
+        where: { activityId },
+        orderBy: { position: "asc" },
+      }),
+      this.prisma.timeSlot.findMany({
+        where: { activityId },
+        orderBy: [{ startAt: "asc" }, { endAt: "asc" }],
+      }),
+      this.prisma.scheduledSession.findMany({
+        where: { activityId },
+        include: {
+          submission: {
+            select: {
+              id: true,
+              contents: this.contentsSelect(lang),
+              member: { select: publicSpeakerSelect },
+              speakers: {
+                select: { member: { select: publicSpeakerSelect } },
+              },
+            },
+          },
+        },
+      }),
+      this.prisma.submission.findMany({
+        where: { ...this.schedulableWhere(activityId), session: null },
+        select: { id: true, contents: this.contentsSelect(lang) },
+      }),
+      this.findConflicts(activityId),
+    ]);
+
+    return {
+      schedulePublishedAt: activity.schedulePublishedAt,
+      rooms,
+      slots,
+      sessions,
+      unscheduled,
+      conflicts,
+    };
+  }
+
+  /**
+   * Place an accepted proposal in a room and slot, or move it there.
+   * Conflicts are rejected unless forced, in which case they are reported.
+   */
+  async placeSession(activityId: string, dto: PlaceSessionDto) {
+    await this.findEditableActivity(activityId);
+
+    const submission = await this.prisma.submission.findFirst({
+      where: { id: dto.submissionId, activityId },
+      select: {
+        id: true,
+        status: true,
+        decision: true,
+        confirmationStatus: true,
+        session: { select: { id: true } },
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+
+    const withdrawnSpeaker =
+      submission.confirmationStatus === ConfirmationStatus.DECLINED ||
+      submission.confirmationStatus === ConfirmationStatus.EXPIRED;
+    if (
+      submission.status !== SubmissionStatus.SUBMITTED ||
+      submission.decision !== SubmissionDecision.ACCEPTED ||
+      withdrawnSpeaker
+    ) {
+      throw new BadRequestException("Only accepted proposals can be scheduled");
+    }
+
+    const [room, slot] = await Promise.all([
+      this.prisma.room.findFirst({ where: { id: dto.roomId, activityId } }),
+      this.prisma.timeSlot.findFirst({ where: { id: dto.slotId, activityId } }),
+    ]);
+    if (!room) throw new NotFoundException("Room not found");
+    if (!slot) throw new NotFoundException("Time slot not found");
+
+    const sessionId = submission.session?.id ?? uuidv7();
+    const others = (await this.findPlacedSessions(activityId)).filter(
+      (s) => s.id !== sessionId,
+    );
+    const candidate: PlacedSession = {
+      id: sessionId,
+      submissionId: submission.id,
+      roomId: room.id,
+      ...this.sessionTimes(slot, dto.durationMinutes ?? null),
+      speakerIds: await this.findSpeakerIds(submission.id),
+    };
+
+    const conflicts = detectConflicts([...others, candidate]).filter((c) =>
+      c.sessionIds.includes(sessionId),
+    );
+    if (conflicts.length > 0 && !dto.force) {
+      throw new ConflictException({
+        message: "Session conflicts with the schedule",
+        conflicts,
+      });
+    }
+
+    const data = {
+      roomId: room.id,
+      slotId: slot.id,
+      durationMinutes: dto.durationMinutes ?? null,
+      track: dto.track ?? null,
+    };
+    const session = await this.prisma.scheduledSession.upsert({
+      where: { submissionId: submission.id },
+      update: data,
+      create: {
+        id: sessionId,
+        activityId,
+        submissionId: submission.id,
+        ...data,
+      },
+    });
+
+    return { ...session, conflicts };
+  }
+
+  async removeSession(activityId: string, sessionId: string) {
+    await this.findEditableActivity(activityId);
+
+    const { count } = await this.prisma.scheduledSession.deleteMany({
+      where: { id: sessionId, activityId },
+    });
+    if (count === 0) throw new NotFoundException("Session not found");
+  }
+
+  async findConflicts(activityId: string) {
+    return detectConflicts(await this.findPlacedSessions(activityId));
+  }
+
+  // ========== Publishing ==========
+
+  async publish(activityId: string) {
+    await this.findEditableActivity(activityId);
+
+    return this.prisma.activity.update({
+      where: { id: activityId },
+      data: { schedulePublishedAt: new Date() },
+      select: { id: true, schedulePublishedAt: true },
+    });
+  }
+
+  async unpublish(activityId: string) {
+    await this.findEditableActivity(activityId);
+
+    return this.prisma.activity.update({
+      where: { id: activityId },
+      data: { schedulePublishedAt: null },
+      select: { id: true, schedulePublishedAt: true },
+    });
+  }
+
+  // public: published agenda by activity slug
+  async findPublishedBySlug(slug: string, lang?: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { slug, publishedAt: { not: null }, deletedAt: null },
+      select: { id: true, slug: true, schedulePublishedAt: true },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    if (!activity.schedulePublishedAt) {
+      throw new NotFoundException("Schedule is not published");
+    }
+
+    const [rooms, slots, sessions] = await Promise.all([
+      this.prisma.room.findMany({
+        where: { activityId: activity.id },
+        select: { id: true, name: true, capacity: true },
+        orderBy: { position: "asc" },
+      }),
+      this.prisma.timeSlot.findMany({
+        where: { activityId: activity.id },
+        select: { id: true, startAt: true, endAt: true },
+        orderBy: [{ startAt: "asc" }, { endAt: "asc" }],
+      }),
+      // Sessions whose speaker has since declined stay off the public agenda
+      this.prisma.scheduledSession.findMany({
+        where: {
+          activityId: activity.id,
+          submission: this.schedulableWhere(activity.id),
+        },
+        include: {
+          slot: { select: { startAt: true, endAt: true } },
+          submission: {
+            select: {
+              contents: this.contentsSelect(lang),
+              member: { select: publicSpeakerSelect },
+              speakers: {
+                select: { member: { select: publicSpeakerSelect } },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    return {
+      slug: activity.slug,
+      publishedAt: activity.schedulePublishedAt,
+      rooms,
+      slots,
+      sessions: sessions
+        .map((session) => {
+          const { startAt, endAt } = this.sessionTimes(
+            session.slot,
+            session.durationMinutes,
+          );
+          const { member, speakers, contents } = session.submission;
+          return {
+            id: session.id,
+            roomId: session.roomId,
+            slotId: session.slotId,
+            startAt,
+            endAt,
+            track: session.track,
+            contents,
+            speakers: [member, ...speakers.map((s) => s.member)],
+          };
+        })
+        .sort((a, b) => a.startAt.getTime() - b.startAt.getTime()),
+    };
+  }
+
+  /**
+   * Published agenda in one language for the export formats, optionally
+   * narrowed to a room or track. Titles fall back to the first language a
+   * proposal was written in.
+   */
+  async findFeed(
+    slug: string,
+    lang?: string,
+    filter: { roomId?: string; track?: string } = {},
+  ): Promise<ScheduleFeed> {
+    const activity = await this.prisma.activity.findUnique({
+      where: { slug, publishedAt: { not: null }, deletedAt: null },
+      select: {
+        id: true,
+        slug: true,
+        name: true,
+        startAt: true,
+        endAt: true,
+        supportedLanguages: true,
+        schedulePublishedAt: true,
+        updatedAt: true,
+        contents: { select: { lang: true, title: true, description: true } },
+      },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    if (!activity.schedulePublishedAt) {
+      throw new NotFoundException("Schedule is not published");
+    }
+
+    const feedLang = (lang ?? activity.supportedLanguages[0]).toLowerCase();
+
+    const [rooms, slots, sessions] = await Promise.all([
+      this.prisma.room.findMany({
+        where: { activityId: activity.id },
+        orderBy: { position: "asc" },
+      }),
+      this.prisma.timeSlot.findMany({
+        where: { activityId: activity.id },
+        select: { updatedAt: true },
+      }),
+      this.prisma.scheduledSession.findMany({
+        where: {
+          activityId: activity.id,
+          submission: this.schedulableWhere(activity.id),
+          ...(filter.roomId && { roomId: filter.roomId }),
+          ...(filter.track && { track: filter.track }),
+        },
+        include: {
+          slot: { select: { startAt: true, endAt: true } },
+          submission: {
+            select: {
+              updatedAt: true,
+              contents: { select: { lang: true, title: true, abstract: true } },
+              member: { select: publicSpeakerSelect },
+              speakers: {
+                select: { member: { select: publicSpeakerSelect } },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    const lastModified = new Date(
+      Math.max(
+        activity.updatedAt.getTime(),
+        activity.schedulePublishedAt.getTime(),
+        ...[...rooms, ...slots, ...sessions].map((r) => r.updatedAt.getTime()),
+        ...sessions.map((s) => s.submission.updatedAt.getTime()),
+      ),
+    );
+    const content = pickContent(activity.contents, feedLang);
+
+    return {
+      slug: activity.slug,
+      title: content?.title ?? activity.name,
+      description: content?.description ?? null,
+      lang: feedLang,
+      startAt: activity.startAt,
+      endAt: activity.endAt,
+      url: buildClientUrl(`/activities/${activity.slug}/schedule`),
+      lastModified,
+      rooms: rooms.map((r) => ({
+        id: r.id,
+        name: r.name,
+        capacity: r.capacity,
+      })),
+      sessions: sessions
+        .map((session) => {
+          const { startAt, endAt } = this.sessionTimes(
+            session.slot,
+            session.durationMinutes,
+          );
+          const { member, speakers, contents } = session.submission;
+          const sessionContent = pickContent(contents, feedLang);
+          const room = rooms.find((r) => r.id === session.roomId)!;
+
+          return {
+            id: session.id,
+            title: sessionContent?.title ?? "",
+            abstract: sessionContent?.abstract ?? null,
+            lang: sessionContent?.lang ?? null,
+            startAt,
+            endAt,
+            room: { id: room.id, name: room.name },
+            track: session.track,
+            speakers: [member, ...speakers.map((s) => s.member)].map((m) => ({
+              id: m.id,
+              name: m.displayName ?? "",
+              organization: m.organization,
+              avatarUrl: m.avatarUrl,
+            })),
+          };
+        })
+        .sort(
+          (a, b) =>
+            a.startAt.getTime() - b.startAt.getTime() ||
+            rooms.findIndex((r) => r.id === a.room.id) -
+              rooms.findIndex((r) => r.id === b.room.id),
+        ),
+    };
+  }
+
+  // ========== Private Methods ==========
+
+  private async findActivity(id: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        startAt: true,
+        endAt: true,
+        schedulePublishedAt: true,
+        ...activityStateSelect,
+      },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    return activity;
+  }
+
+  private async findEditableActivity(id: string) {
+    const activity = await this.findActivity(id);
+    assertActivityEditable(activity);
+    return activity;
+  }
+
+  private contentsSelect(lang?: string) {
+    return {
+      select: { lang: true, title: true, abstract: true },
+      where: lang ? { lang: lang.toLowerCase() } : undefined,
+    };
+  }
+
+  /**
+   * Accepted proposals whose speakers have not declined or let the
+   * confirmation expire
+   */
+  private schedulableWhere(activityId: string) {
+    return {
+      activityId,
+      status: SubmissionStatus.SUBMITTED,
+      decision: SubmissionDecision.ACCEPTED,
+      OR: [
+        { confirmationStatus: null },
+        {
+          confirmationStatus: {
+            in: [ConfirmationStatus.PENDING, ConfirmationStatus.CONFIRMED],
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Reject ids that do not belong to the activity; returns the ids kept
+   */
+  private async assertOwnIds(
+    model: "room" | "timeSlot",
+    activityId: string,
+    ids: Array<string | undefined>,
+  ): Promise<string[]> {
+    const keptIds = ids.filter((id): id is string => !!id);
+    const existing =
+      model === "room"
+        ? await this.prisma.room.findMany({
+            where: { activityId },
+            select: { id: true },
+          })
+        : await this.prisma.timeSlot.findMany({
+            where: { activityId },
+            select: { id: true },
+          });
+
+    const unknownIds = keptIds.filter(
+      (id) => !existing.some((e) => e.id === id),
+    );
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(
+        `IDs do not belong to this activity: ${unknownIds.join(", ")}`,
+      );
+    }
+    return keptIds;
+  }
+
+  private sessionTimes(
+    slot: { startAt: Date; endAt: Date },
+    durationMinutes: number | null,
+  ) {
+    return {
+      startAt: slot.startAt,
+      endAt: durationMinutes
+        ? new Date(slot.startAt.getTime() + durationMinutes * 60 * 1000)
+        : slot.endAt,
+      slotEndAt: slot.endAt,
+    };
+  }
+
+  private async findSpeakerIds(submissionId: string): Promise<string[]> {
+    const submission = await this.prisma.submission.findUniqueOrThrow({
+      where: { id: submissionId },
+      select: { memberId: true, speakers: { select: { memberId: true } } },
+    });
+    return [submission.memberId, ...submission.speakers.map((s) => s.memberId)];
+  }
+
+  private async findPlacedSessions(
+    activityId: string,
+  ): Promise<PlacedSession[]> {
+    const sessions = await this.prisma.scheduledSession.findMany({
+      where: { activityId },
+      select: {
+        id: true,
+        submissionId: true,
+        roomId: true,
+        durationMinutes: true,
+        slot: { select: { startAt: true, endAt: true } },
+        submission: {
+          select: { memberId: true, speakers: { select: { memberId: true } } },
+        },
+      },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      submissionId: session.submissionId,
+      roomId: session.roomId,
+      ...this.sessionTimes(session.slot, session.durationMinutes),
+      speakerIds: [
+        session.submission.memberId,
+        ...session.submission.speakers.map((s) => s.memberId),
+      ],
+    }));
+  }
+}
@@ -0,0 +1,91 @@
+import { detectConflicts, PlacedSession } from "./conflict-detector";
+
+const at = (time: string) => new Date(`2026-11-01T${time}:00Z`);
+
+const session = (
+  id: string,
+  overrides: Partial<PlacedSession> = {},
+): PlacedSession => ({
+  id,
+  submissionId: `submission-${id}`,
+  roomId: "room-a",
+  startAt: at("10:00"),
+  endAt: at("10:30"),
+  slotEndAt: at("10:30"),
+  speakerIds: [`speaker-${id}`],
+  ...overrides,
+});
+
+describe("detectConflicts", () => {
+  it("should accept a clean schedule", () => {
+    expect(
+      detectConflicts([
+        session("a"),
+        session("b", { roomId: "room-b" }),
+        session("c", {
+          startAt: at("10:30"),
+          endAt: at("11:00"),
+          slotEndAt: at("11:00"),
+        }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should flag two overlapping sessions in the same room", () => {
+    const conflicts = detectConflicts([
+      session("a"),
+      session("b", { startAt: at("10:15"), endAt: at("10:45") }),
+    ]);
+
+    expect(conflicts).toContainEqual(
+      expect.objectContaining({
+        type: "ROOM_DOUBLE_BOOKED",
+        sessionIds: ["a", "b"],
+      }),
+    );
+  });
+
+  it("should flag a speaker in two rooms at once", () => {
+    const conflicts = detectConflicts([
+      session("a", { speakerIds: ["shared", "speaker-a"] }),
+      session("b", { roomId: "room-b", speakerIds: ["shared"] }),
+    ]);
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        type: "SPEAKER_DOUBLE_BOOKED",
+        sessionIds: ["a", "b"],
+        message: expect.stringContaining("shared") as string,
+      }),
+    ]);
+  });
+
+  it("should flag a session running past its slot", () => {
+    expect(detectConflicts([session("a", { endAt: at("10:45") })])).toEqual([
+      expect.objectContaining({ type: "EXCEEDS_SLOT", sessionIds: ["a"] }),
+    ]);
+  });
+
+  it("should treat back-to-back sessions as not overlapping", () => {
+    expect(
+      detectConflicts([
+        session("a", { speakerIds: ["shared"] }),
+        session("b", {
+          startAt: at("10:30"),
+          endAt: at("11:00"),
+          slotEndAt: at("11:00"),
+          speakerIds: ["shared"],
+        }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should report every conflict of a pair", () => {
+    const types = detectConflicts([
+      session("a", { speakerIds: ["shared"] }),
+      session("b", { speakerIds: ["shared"] }),
+    ]).map((conflict) => conflict.type);
+
+    expect(types).toEqual(["ROOM_DOUBLE_BOOKED", "SPEAKER_DOUBLE_BOOKED"]);
+  });
+});
@@ -0,0 +1,70 @@
+export type ScheduleConflictType =
+  | "ROOM_DOUBLE_BOOKED"
+  | "SPEAKER_DOUBLE_BOOKED"
+  | "EXCEEDS_SLOT";
+
+export interface PlacedSession {
+  id: string;
+  submissionId: string;
+  roomId: string;
+  startAt: Date;
+  endAt: Date;
+  slotEndAt: Date;
+  // member ids of the owner and co-speakers
+  speakerIds: string[];
+}
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  sessionIds: string[];
+  message: string;
+}
+
+const overlaps = (a: PlacedSession, b: PlacedSession) =>
+  a.startAt < b.endAt && b.startAt < a.endAt;
+
+/**
+ * Find every conflict among placed sessions: rooms hosting two sessions at
+ * once, speakers expected in two sessions at once, and sessions running past
+ * the end of their slot
+ */
+export const detectConflicts = (
+  sessions: PlacedSession[],
+): ScheduleConflict[] => {
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const session of sessions) {
+    if (session.endAt > session.slotEndAt) {
+      conflicts.push({
+        type: "EXCEEDS_SLOT",
+        sessionIds: [session.id],
+        message: `Session ${session.id} runs past the end of its slot`,
+      });
+    }
+  }
+
+  for (const [i, a] of sessions.entries()) {
+    for (const b of sessions.slice(i + 1)) {
+      if (!overlaps(a, b)) continue;
+
+      if (a.roomId === b.roomId) {
+        conflicts.push({
+          type: "ROOM_DOUBLE_BOOKED",
+          sessionIds: [a.id, b.id],
+          message: `Sessions ${a.id} and ${b.id} overlap in the same room`,
+        });
+      }
+
+      const shared = a.speakerIds.filter((id) => b.speakerIds.includes(id));
+      if (shared.length > 0) {
+        conflicts.push({
+          type: "SPEAKER_DOUBLE_BOOKED",
+          sessionIds: [a.id, b.id],
+          message: `Speakers ${shared.join(", ")} are in sessions ${a.id} and ${b.id} at the same time`,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+};
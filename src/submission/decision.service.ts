@@ -0,0 +1,461 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { PrismaService } from "../prisma/prisma.service";
+import { BulkDecisionDto } from "./dto/decision.dto";
+import { redactDecision } from "./utils/decision.util";
+import { pickContent } from "src/common/utils/language.util";
+import { buildClientUrl } from "src/common/utils/url.util";
+import { NotificationService } from "../notification/notification.service";
+import {
+  activityStateSelect,
+  assertActivityEditable,
+} from "../activity/utils/activity-state.util";
+import {
+  ConfirmationStatus,
+  Prisma,
+  SubmissionDecision,
+  SubmissionStatus,
+} from "../../generated/prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const decisionSelect = {
+  id: true,
+  status: true,
+  decision: true,
+  decidedAt: true,
+  waitlistRank: true,
+  confirmationStatus: true,
+  confirmationDeadline: true,
+  confirmationRespondedAt: true,
+};
+
+@Injectable()
+export class DecisionService {
+  private readonly logger = new Logger(DecisionService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationService: NotificationService,
+  ) {}
+
+  // ========== Admin ==========
+
+  /**
+   * Record decisions for several proposals of an activity at once.
+   * After publication, newly accepted proposals get a confirmation deadline
+   * straight away.
+   */
+  async decide(activitySlug: string, dto: BulkDecisionDto) {
+    const activity = await this.findActivityBySlug(activitySlug);
+
+    const ids = dto.decisions.map((d) => d.submissionId);
+    const duplicates = ids.filter((id, i) => ids.indexOf(id) !== i);
+    if (duplicates.length > 0) {
+      throw new BadRequestException(
+        `Submissions decided more than once: ${duplicates.join(", ")}`,
+      );
+    }
+
+    const submissions = await this.prisma.submission.findMany({
+      where: { id: { in: ids }, activityId: activity.id },
+      select: { id: true, status: true, decision: true, waitlistRank: true },
+    });
+    const missing = ids.filter((id) => !submissions.some((s) => s.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundException(
+        `Submissions not found in this activity: ${missing.join(", ")}`,
+      );
+    }
+    const notSubmitted = submissions
+      .filter((s) => s.status !== SubmissionStatus.SUBMITTED)
+      .map((s) => s.id);
+    if (notSubmitted.length > 0) {
+      throw new BadRequestException(
+        `Only submitted proposals can be decided: ${notSubmitted.join(", ")}`,
+      );
+    }
+
+    // Unranked waitlist entries join the end of the waitlist in request order
+    const { _max } = await this.prisma.submission.aggregate({
+      where: {
+        activityId: activity.id,
+        decision: SubmissionDecision.WAITLISTED,
+        id: { notIn: ids },
+      },
+      _max: { waitlistRank: true },
+    });
+    let lastRank = Math.max(
+      _max.waitlistRank ?? 0,
+      ...dto.decisions.map((d) => d.waitlistRank ?? 0),
+    );
+
+    const now = new Date();
+    const published = activity.decisionsPublishedAt !== null;
+
+    return this.prisma.$transaction(async (tx) => {
+      const results: Prisma.SubmissionGetPayload<{
+        select: typeof decisionSelect;
+      }>[] = [];
+      const changedIds: string[] = [];
+
+      for (const item of dto.decisions) {
+        const current = submissions.find((s) => s.id === item.submissionId)!;
+        const changed = current.decision !== item.decision;
+        if (changed) changedIds.push(item.submissionId);
+
+        let waitlistRank: number | null = null;
+        if (item.decision === SubmissionDecision.WAITLISTED) {
+          waitlistRank =
+            item.waitlistRank ??
+            (changed ? null : current.waitlistRank) ??
+            ++lastRank;
+        }
+
+        results.push(
+          await tx.submission.update({
+            where: { id: item.submissionId },
+            data: {
+              decision: item.decision,
+              waitlistRank,
+              ...(changed && {
+                decidedAt: now,
+                ...this.confirmationData(
+                  item.decision === SubmissionDecision.ACCEPTED && published,
+                  activity.confirmationDays,
+                  now,
+                ),
+              }),
+            },
+            select: decisionSelect,
+          }),
+        );
+      }
+
+      // Speakers already saw the published decisions; tell them what changed
+      if (published) await this.enqueueDecisionEmails(tx, changedIds);
+
+      return results;
+    });
+  }
+
+  /**
+   * Reveal decisions to speakers and start the confirmation clock for every
+   * accepted proposal
+   */
+  async publish(activitySlug: string) {
+    const activity = await this.findActivityBySlug(activitySlug);
+    if (activity.decisionsPublishedAt) {
+      throw new ConflictException("Decisions are already published");
+    }
+
+    const now = new Date();
+    const confirmationDeadline = new Date(
+      now.getTime() + activity.confirmationDays * DAY_MS,
+    );
+
+    const count = await this.prisma.$transaction(async (tx) => {
+      await tx.activity.update({
+        where: { id: activity.id },
+        data: { decisionsPublishedAt: now },
+      });
+      const { count } = await tx.submission.updateMany({
+        where: {
+          activityId: activity.id,
+          status: SubmissionStatus.SUBMITTED,
+          decision: SubmissionDecision.ACCEPTED,
+          confirmationStatus: null,
+        },
+        data: {
+          confirmationStatus: ConfirmationStatus.PENDING,
+          confirmationDeadline,
+        },
+      });
+
+      const decided = await tx.submission.findMany({
+        where: {
+          activityId: activity.id,
+          status: SubmissionStatus.SUBMITTED,
+          decision: { not: null },
+        },
+        select: { id: true },
+      });
+      await this.enqueueDecisionEmails(
+        tx,
+        decided.map((s) => s.id),
+      );
+
+      return count;
+    });
+
+    return {
+      decisionsPublishedAt: now,
+      confirmationDeadline,
+      awaitingConfirmation: count,
+    };
+  }
+
+  // ========== Speaker ==========
+
+  async confirm(memberId: string, id: string) {
+    return this.respond(memberId, id, ConfirmationStatus.CONFIRMED);
+  }
+
+  async decline(memberId: string, id: string) {
+    return this.respond(memberId, id, ConfirmationStatus.DECLINED);
+  }
+
+  // ========== Waitlist ==========
+
+  /**
+   * Accept the best-ranked waitlisted proposal to fill a freed slot.
+   * Does nothing until the activity's decisions are published. Pass the
+   * transaction that freed the slot so both commit together.
+   */
+  async promoteFromWaitlist(
+    activityId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<string | null> {
+    if (!tx) {
+      return this.prisma.$transaction((client) =>
+        this.promoteFromWaitlist(activityId, client),
+      );
+    }
+
+    const activity = await tx.activity.findUnique({
+      where: { id: activityId },
+      select: { confirmationDays: true, decisionsPublishedAt: true },
+    });
+    if (!activity?.decisionsPublishedAt) return null;
+
+    // A concurrent promotion may take the same candidate; move on to the next
+    for (;;) {
+      const next = await tx.submission.findFirst({
+        where: {
+          activityId,
+          status: SubmissionStatus.SUBMITTED,
+          decision: SubmissionDecision.WAITLISTED,
+        },
+        orderBy: [
+          { waitlistRank: { sort: "asc", nulls: "last" } },
+          { submittedAt: "asc" },
+        ],
+        select: { id: true },
+      });
+      if (!next) return null;
+
+      const now = new Date();
+      const { count } = await tx.submission.updateMany({
+        where: { id: next.id, decision: SubmissionDecision.WAITLISTED },
+        data: {
+          decision: SubmissionDecision.ACCEPTED,
+          decidedAt: now,
+          waitlistRank: null,
+          ...this.confirmationData(true, activity.confirmationDays, now),
+        },
+      });
+      if (count > 0) {
+        await this.enqueueDecisionEmails(tx, [next.id]);
+        this.logger.log(`Promoted submission ${next.id} from the waitlist`);
+        return next.id;
+      }
+    }
+  }
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async expireConfirmations() {
+    const overdue = await this.prisma.submission.findMany({
+      where: {
+        confirmationStatus: ConfirmationStatus.PENDING,
+        confirmationDeadline: { lte: new Date() },
+      },
+      select: { id: true, activityId: true },
+    });
+
+    for (const submission of overdue) {
+      await this.prisma.$transaction(async (tx) => {
+        // Skip proposals whose speaker responded since the lookup
+        const { count } = await tx.submission.updateMany({
+          where: {
+            id: submission.id,
+            confirmationStatus: ConfirmationStatus.PENDING,
+          },
+          data: { confirmationStatus: ConfirmationStatus.EXPIRED },
+        });
+        if (count > 0) {
+          this.logger.log(
+            `Confirmation expired for submission ${submission.id}`,
+          );
+          await this.promoteFromWaitlist(submission.activityId, tx);
+        }
+      });
+    }
+  }
+
+  // ========== Private Methods ==========
+
+  private async findActivityBySlug(slug: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { slug: slug.toLowerCase() },
+      select: {
+        id: true,
+        confirmationDays: true,
+        decisionsPublishedAt: true,
+        ...activityStateSelect,
+      },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    // Both callers change decisions, which archiving freezes
+    assertActivityEditable(activity);
+    return activity;
+  }
+
+  /**
+   * Confirmation fields for a fresh decision: a pending confirmation with a
+   * deadline when the speaker must respond, otherwise cleared
+   */
+  private confirmationData(
+    awaitConfirmation: boolean,
+    confirmationDays: number,
+    now: Date,
+  ) {
+    return {
+      confirmationStatus: awaitConfirmation ? ConfirmationStatus.PENDING : null,
+      confirmationDeadline: awaitConfirmation
+        ? new Date(now.getTime() + confirmationDays * DAY_MS)
+        : null,
+      confirmationRespondedAt: null,
+    };
+  }
+
+  /**
+   * Tell the owners of the given proposals about their decision
+   */
+  private async enqueueDecisionEmails(
+    tx: Prisma.TransactionClient,
+    submissionIds: string[],
+  ) {
+    if (submissionIds.length === 0) return;
+
+    const submissions = await tx.submission.findMany({
+      where: { id: { in: submissionIds } },
+      select: {
+        id: true,
+        decision: true,
+        confirmationDeadline: true,
+        member: {
+          select: { email: true, displayName: true, preferredLanguage: true },
+        },
+        activity: { select: { name: true, supportedLanguages: true } },
+        contents: { select: { lang: true, title: true } },
+      },
+    });
+
+    for (const submission of submissions) {
+      const { member, activity } = submission;
+      const lang = this.notificationService.resolveLanguage(
+        member.preferredLanguage,
+        activity.supportedLanguages,
+      );
+      const data = {
+        displayName: member.displayName ?? member.email,
+        activityName: activity.name,
+        title: pickContent(submission.contents, lang)?.title ?? "",
+      };
+
+      switch (submission.decision) {
+        case SubmissionDecision.ACCEPTED:
+          await this.notificationService.enqueue(tx, {
+            to: member.email,
+            template: "decisionAccepted",
+            lang,
+            data: {
+              ...data,
+              confirmationDeadline: submission.confirmationDeadline!,
+              submissionUrl: buildClientUrl(`/submissions/${submission.id}`),
+            },
+          });
+          break;
+        case SubmissionDecision.REJECTED:
+          await this.notificationService.enqueue(tx, {
+            to: member.email,
+            template: "decisionRejected",
+            lang,
+            data,
+          });
+          break;
+        case SubmissionDecision.WAITLISTED:
+          await this.notificationService.enqueue(tx, {
+            to: member.email,
+            template: "decisionWaitlisted",
+            lang,
+            data,
+          });
+          break;
+      }
+    }
+  }
+
+  private async respond(
+    memberId: string,
+    id: string,
+    status: ConfirmationStatus,
+  ) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id },
+      select: {
+        memberId: true,
+        confirmationStatus: true,
+        confirmationDeadline: true,
+        activity: { select: { decisionsPublishedAt: true } },
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+    if (submission.memberId !== memberId) {
+      throw new ForbiddenException("You do not own this submission");
+    }
+
+    const now = new Date();
+    if (
+      !submission.activity.decisionsPublishedAt ||
+      submission.confirmationStatus !== ConfirmationStatus.PENDING
+    ) {
+      throw new BadRequestException("Proposal is not awaiting confirmation");
+    }
+    if (submission.confirmationDeadline! <= now) {
+      throw new BadRequestException("Confirmation deadline has passed");
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Guard against racing the expiry job or a parallel response
+      const { count } = await tx.submission.updateMany({
+        where: {
+          id,
+          confirmationStatus: ConfirmationStatus.PENDING,
+          confirmationDeadline: { gt: now },
+        },
+        data: { confirmationStatus: status, confirmationRespondedAt: now },
+      });
+      if (count === 0) {
+        throw new BadRequestException("Proposal is not awaiting confirmation");
+      }
+
+      const updated = await tx.submission.findUniqueOrThrow({
+        where: { id },
+        select: { ...decisionSelect, activityId: true },
+      });
+      // A declined slot goes to the waitlist
+      if (status === ConfirmationStatus.DECLINED) {
+        await this.promoteFromWaitlist(updated.activityId, tx);
+      }
+      return redactDecision(updated, true);
+    });
+  }
+}
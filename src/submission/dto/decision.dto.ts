@@ -0,0 +1,41 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  ArrayMinSize,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { SubmissionDecision } from "../../../generated/prisma/client";
+
+export class DecisionDto {
+  @ApiProperty()
+  @IsUUID()
+  submissionId: string;
+
+  @ApiProperty({ enum: SubmissionDecision })
+  @IsEnum(SubmissionDecision)
+  decision: SubmissionDecision;
+
+  @ApiPropertyOptional({
+    description:
+      "Waitlist position, lowest promoted first; defaults to the end of the waitlist",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  waitlistRank?: number;
+}
+
+export class BulkDecisionDto {
+  @ApiProperty({ type: [DecisionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => DecisionDto)
+  decisions: DecisionDto[];
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsString, IsEmail, IsNotEmpty, MaxLength } from "class-validator";
+
+export class CreateInvitationDto {
+  @ApiProperty({ example: "speaker@example.com" })
+  @Transform(({ value }): string =>
+    typeof value === "string" ? value.toLowerCase().trim() : value,
+  )
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+}
+
+export class RespondInvitationDto {
+  @ApiProperty({ description: "Token from the invitation link" })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,72 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  IsString,
+  IsArray,
+  ArrayMinSize,
+  IsOptional,
+  MaxLength,
+  IsNotEmpty,
+  ValidateNested,
+} from "class-validator";
+import { AnswerDto } from "../../question/dto/question.dto";
+
+export class SubmissionContentDto {
+  @ApiProperty({ example: "zh-TW" })
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }: { value: string }): string =>
+    typeof value === "string" ? value.toLowerCase() : value,
+  )
+  @MaxLength(15)
+  lang: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsOptional()
+  abstract?: string;
+}
+
+export class CreateSubmissionDto {
+  @ApiProperty({ example: "jsdc-2026", description: "Slug of the activity" })
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }): string =>
+    typeof value === "string" ? value.toLowerCase().trim() : value,
+  )
+  activitySlug: string;
+
+  @ApiProperty({ type: [SubmissionContentDto] })
+  @IsArray()
+  @ArrayMinSize(1, {
+    message: "At least one language version must be provided",
+  })
+  @ValidateNested({ each: true })
+  @Type(() => SubmissionContentDto)
+  contents: SubmissionContentDto[];
+
+  @ApiPropertyOptional({
+    type: [AnswerDto],
+    description: "Answers to the activity's custom CFP questions",
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AnswerDto)
+  answers?: AnswerDto[];
+}
+
+export class UpdateSubmissionDto extends PartialType(
+  OmitType(CreateSubmissionDto, ["activitySlug"] as const),
+) {}
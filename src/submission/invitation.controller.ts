@@ -0,0 +1,47 @@
+import { Controller, Post, Body, HttpCode } from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { InvitationService } from "./invitation.service";
+import { RespondInvitationDto } from "./dto/invitation.dto";
+import { Public } from "../auth/decorators/public.decorator";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+
+@ApiTags("Invitations")
+@Controller("invitations")
+export class InvitationController {
+  constructor(private readonly invitationService: InvitationService) {}
+
+  @Post("accept")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Accept a co-speaker invitation as the current member",
+  })
+  @ApiResponse({ status: 200, description: "Linked as co-speaker" })
+  @ApiResponse({
+    status: 400,
+    description: "Invitation is invalid, expired, or already used",
+  })
+  @ApiResponse({
+    status: 403,
+    description: "Invitation was sent to a different email address",
+  })
+  async accept(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: RespondInvitationDto,
+  ) {
+    return this.invitationService.accept(user.id, dto.token);
+  }
+
+  @Public()
+  @Post("decline")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Decline a co-speaker invitation" })
+  @ApiResponse({ status: 200, description: "Invitation declined" })
+  @ApiResponse({
+    status: 400,
+    description: "Invitation is invalid, expired, or already used",
+  })
+  async decline(@Body() dto: RespondInvitationDto) {
+    return this.invitationService.decline(dto.token);
+  }
+}
@@ -0,0 +1,308 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { CreateInvitationDto } from "./dto/invitation.dto";
+import { withId } from "src/common/utils/db.util";
+import { generateToken, hashToken } from "src/common/utils/token.util";
+import { pickContent } from "src/common/utils/language.util";
+import { buildClientUrl } from "src/common/utils/url.util";
+import { NotificationService } from "../notification/notification.service";
+import {
+  InvitationStatus,
+  Prisma,
+  SubmissionStatus,
+} from "../../generated/prisma/client";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const sameEmail = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  status: true,
+  expiresAt: true,
+  respondedAt: true,
+  createdAt: true,
+  member: { select: { id: true, displayName: true } },
+};
+
+@Injectable()
+export class InvitationService {
+  constructor(
+    private prisma: PrismaService,
+    private notificationService: NotificationService,
+  ) {}
+
+  // ========== Owner ==========
+
+  async create(
+    ownerId: string,
+    submissionId: string,
+    dto: CreateInvitationDto,
+  ) {
+    const submission = await this.findOwnedSubmission(ownerId, submissionId);
+
+    if (submission.status === SubmissionStatus.WITHDRAWN) {
+      throw new BadRequestException(
+        "Cannot invite co-speakers to a withdrawn submission",
+      );
+    }
+
+    if (sameEmail(submission.member.email, dto.email)) {
+      throw new BadRequestException("You cannot invite yourself");
+    }
+
+    const alreadySpeaker = await this.prisma.submissionSpeaker.findFirst({
+      where: {
+        submissionId,
+        member: { email: { equals: dto.email, mode: "insensitive" } },
+      },
+    });
+    if (alreadySpeaker) {
+      throw new ConflictException(`${dto.email} is already a co-speaker`);
+    }
+
+    const pending = await this.prisma.submissionInvitation.findFirst({
+      where: {
+        submissionId,
+        email: { equals: dto.email, mode: "insensitive" },
+        status: InvitationStatus.PENDING,
+        expiresAt: { gt: new Date() },
+      },
+    });
+    if (pending) {
+      throw new ConflictException(
+        `A pending invitation for ${dto.email} already exists`,
+      );
+    }
+
+    const { token, tokenHash } = generateToken();
+    const inviteUrl = this.buildInviteUrl(token);
+
+    // The link only travels by email so the token stays with the invitee
+    return this.prisma.$transaction(async (tx) => {
+      const created = await tx.submissionInvitation.create({
+        data: withId({
+          submissionId,
+          email: dto.email,
+          tokenHash,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        }),
+        select: invitationSelect,
+      });
+      await this.enqueueInvitationEmail(tx, submission, created, inviteUrl);
+      return created;
+    });
+  }
+
+  async findAll(ownerId: string, submissionId: string) {
+    await this.findOwnedSubmission(ownerId, submissionId);
+
+    const invitations = await this.prisma.submissionInvitation.findMany({
+      where: { submissionId },
+      select: invitationSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    const now = new Date();
+    return invitations.map((invitation) => ({
+      ...invitation,
+      expired:
+        invitation.status === InvitationStatus.PENDING &&
+        invitation.expiresAt <= now,
+    }));
+  }
+
+  async revoke(ownerId: string, submissionId: string, invitationId: string) {
+    await this.findOwnedSubmission(ownerId, submissionId);
+    await this.findPendingInvitation(submissionId, invitationId);
+
+    return this.prisma.submissionInvitation.update({
+      where: { id: invitationId },
+      data: { status: InvitationStatus.REVOKED, respondedAt: new Date() },
+      select: invitationSelect,
+    });
+  }
+
+  async resend(ownerId: string, submissionId: string, invitationId: string) {
+    const submission = await this.findOwnedSubmission(ownerId, submissionId);
+    await this.findPendingInvitation(submissionId, invitationId);
+
+    // A new token invalidates the previous link
+    const { token, tokenHash } = generateToken();
+    const inviteUrl = this.buildInviteUrl(token);
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.submissionInvitation.update({
+        where: { id: invitationId },
+        data: {
+          tokenHash,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        },
+        select: invitationSelect,
+      });
+      await this.enqueueInvitationEmail(tx, submission, updated, inviteUrl);
+      return updated;
+    });
+  }
+
+  // ========== Invitee ==========
+
+  async accept(memberId: string, token: string) {
+    const invitation = await this.findRedeemableInvitation(token);
+
+    if (invitation.submission.memberId === memberId) {
+      throw new BadRequestException(
+        "You cannot accept an invitation to your own submission",
+      );
+    }
+
+    // The invitation belongs to the address it was sent to
+    const member = await this.prisma.member.findUnique({
+      where: { id: memberId },
+      select: { email: true },
+    });
+    if (!member || !sameEmail(member.email, invitation.email)) {
+      throw new ForbiddenException(
+        "This invitation was sent to a different email address",
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Guard against the token being redeemed concurrently
+      const { count } = await tx.submissionInvitation.updateMany({
+        where: { id: invitation.id, status: InvitationStatus.PENDING },
+        data: {
+          status: InvitationStatus.ACCEPTED,
+          respondedAt: new Date(),
+          memberId,
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException("Invitation is invalid or has expired");
+      }
+
+      await tx.submissionSpeaker.upsert({
+        where: {
+          submissionId_memberId: {
+            submissionId: invitation.submissionId,
+            memberId,
+          },
+        },
+        update: {},
+        create: { submissionId: invitation.submissionId, memberId },
+      });
+
+      return { submissionId: invitation.submissionId };
+    });
+  }
+
+  async decline(token: string) {
+    const invitation = await this.findRedeemableInvitation(token);
+
+    const { count } = await this.prisma.submissionInvitation.updateMany({
+      where: { id: invitation.id, status: InvitationStatus.PENDING },
+      data: { status: InvitationStatus.DECLINED, respondedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException("Invitation is invalid or has expired");
+    }
+
+    return { submissionId: invitation.submissionId };
+  }
+
+  // ========== Private Methods ==========
+
+  private buildInviteUrl(token: string): string {
+    return buildClientUrl(`/invitations/${token}`);
+  }
+
+  /**
+   * Email the invite link in the invitee's language when they already have an
+   * account, otherwise in the activity's primary language
+   */
+  private async enqueueInvitationEmail(
+    tx: Prisma.TransactionClient,
+    submission: Awaited<ReturnType<InvitationService["findOwnedSubmission"]>>,
+    invitation: { email: string; expiresAt: Date },
+    inviteUrl: string,
+  ) {
+    const invitee = await tx.member.findFirst({
+      where: { email: { equals: invitation.email, mode: "insensitive" } },
+      select: { preferredLanguage: true },
+    });
+    const lang = this.notificationService.resolveLanguage(
+      invitee?.preferredLanguage,
+      submission.activity.supportedLanguages,
+    );
+
+    await this.notificationService.enqueue(tx, {
+      to: invitation.email,
+      template: "invitation",
+      lang,
+      data: {
+        inviterName: submission.member.displayName ?? submission.member.email,
+        activityName: submission.activity.name,
+        title: pickContent(submission.contents, lang)?.title ?? "",
+        inviteUrl,
+        expiresAt: invitation.expiresAt,
+      },
+    });
+  }
+
+  private async findOwnedSubmission(ownerId: string, submissionId: string) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id: submissionId },
+      include: {
+        member: { select: { email: true, displayName: true } },
+        activity: { select: { name: true, supportedLanguages: true } },
+        contents: { select: { lang: true, title: true } },
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+    if (submission.memberId !== ownerId) {
+      throw new ForbiddenException("You do not own this submission");
+    }
+    return submission;
+  }
+
+  private async findPendingInvitation(
+    submissionId: string,
+    invitationId: string,
+  ) {
+    const invitation = await this.prisma.submissionInvitation.findFirst({
+      where: { id: invitationId, submissionId },
+    });
+    if (!invitation) throw new NotFoundException("Invitation not found");
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new BadRequestException("Only pending invitations can be changed");
+    }
+    return invitation;
+  }
+
+  /**
+   * Look up a pending, unexpired invitation by its raw token
+   */
+  private async findRedeemableInvitation(token: string) {
+    const invitation = await this.prisma.submissionInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { submission: { select: { memberId: true } } },
+    });
+
+    if (
+      !invitation ||
+      invitation.status !== InvitationStatus.PENDING ||
+      invitation.expiresAt <= new Date()
+    ) {
+      throw new BadRequestException("Invitation is invalid or has expired");
+    }
+
+    return invitation;
+  }
+}
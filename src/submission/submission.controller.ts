@@ -0,0 +1,305 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  Query,
+  Patch,
+  Put,
+  HttpCode,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from "@nestjs/swagger";
+import { SubmissionService } from "./submission.service";
+import { InvitationService } from "./invitation.service";
+import { DecisionService } from "./decision.service";
+import { CreateSubmissionDto, UpdateSubmissionDto } from "./dto/submission.dto";
+import { CreateInvitationDto } from "./dto/invitation.dto";
+import { BulkDecisionDto } from "./dto/decision.dto";
+import { Permissions } from "../auth/decorators/permissions.decorator";
+import { ActivityScope } from "../auth/decorators/activity-scope.decorator";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+import {
+  SubmissionDecision,
+  SubmissionStatus,
+} from "../../generated/prisma/client";
+
+@ApiTags("Submissions")
+@Controller("submissions")
+export class SubmissionController {
+  constructor(
+    private readonly submissionService: SubmissionService,
+    private readonly invitationService: InvitationService,
+    private readonly decisionService: DecisionService,
+  ) {}
+
+  // ========== Member API ==========
+
+  @Post("me")
+  @ApiOperation({ summary: "Create a draft proposal for an activity" })
+  @ApiResponse({ status: 201, description: "Created successfully" })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid input or the call for proposals is closed",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: CreateSubmissionDto,
+  ) {
+    return this.submissionService.create(user.id, dto);
+  }
+
+  @Get("me")
+  @ApiOperation({ summary: "List my proposals" })
+  @ApiQuery({
+    name: "activity",
+    required: false,
+    description: "Optional activity slug to filter proposals",
+  })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  async findMine(
+    @CurrentUser() user: AuthUser,
+    @Query("activity") activitySlug?: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.submissionService.findMine(user.id, activitySlug, lang);
+  }
+
+  @Get("me/:id")
+  @ApiOperation({ summary: "Get one of my proposals" })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  @ApiResponse({ status: 403, description: "Not the owner of the proposal" })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async findMineById(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.submissionService.findMineById(user.id, id, lang);
+  }
+
+  @Patch("me/:id")
+  @ApiOperation({ summary: "Edit one of my proposals" })
+  @ApiResponse({ status: 200, description: "Submission updated successfully" })
+  @ApiResponse({
+    status: 400,
+    description:
+      "Invalid input, the proposal is withdrawn, or the call for proposals is closed",
+  })
+  @ApiResponse({ status: 403, description: "Not the owner of the proposal" })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: UpdateSubmissionDto,
+  ) {
+    return this.submissionService.update(user.id, id, dto);
+  }
+
+  @Post("me/:id/submit")
+  @ApiOperation({ summary: "Submit a draft proposal" })
+  @ApiResponse({
+    status: 400,
+    description: "Proposal is not a draft or the call for proposals is closed",
+  })
+  async submit(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.submissionService.submit(user.id, id);
+  }
+
+  @Post("me/:id/withdraw")
+  @ApiOperation({ summary: "Withdraw a proposal" })
+  @ApiResponse({ status: 400, description: "Proposal is already withdrawn" })
+  async withdraw(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.submissionService.withdraw(user.id, id);
+  }
+
+  @Post("me/:id/confirm")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Confirm that I will speak at the activity" })
+  @ApiResponse({
+    status: 400,
+    description: "Proposal is not awaiting confirmation or the deadline passed",
+  })
+  @ApiResponse({ status: 403, description: "Not the owner of the proposal" })
+  async confirm(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.decisionService.confirm(user.id, id);
+  }
+
+  @Post("me/:id/decline")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Decline an accepted proposal; the next waitlisted one moves up",
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Proposal is not awaiting confirmation or the deadline passed",
+  })
+  @ApiResponse({ status: 403, description: "Not the owner of the proposal" })
+  async decline(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.decisionService.decline(user.id, id);
+  }
+
+  // ========== Co-speaker Invitations ==========
+
+  @Post("me/:id/invitations")
+  @ApiOperation({ summary: "Invite a co-speaker by email" })
+  @ApiResponse({
+    status: 201,
+    description: "Invitation created and the invite link emailed",
+  })
+  @ApiResponse({ status: 403, description: "Not the owner of the proposal" })
+  @ApiResponse({
+    status: 409,
+    description: "Already a co-speaker or a pending invitation exists",
+  })
+  async createInvitation(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: CreateInvitationDto,
+  ) {
+    return this.invitationService.create(user.id, id, dto);
+  }
+
+  @Get("me/:id/invitations")
+  @ApiOperation({ summary: "List co-speaker invitations of my proposal" })
+  @ApiResponse({ status: 403, description: "Not the owner of the proposal" })
+  async findInvitations(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.invitationService.findAll(user.id, id);
+  }
+
+  @Post("me/:id/invitations/:invitationId/revoke")
+  @HttpCode(200)
+  @ApiOperation({ summary: "Revoke a pending invitation" })
+  @ApiResponse({ status: 400, description: "Invitation is not pending" })
+  @ApiResponse({ status: 404, description: "Invitation not found" })
+  async revokeInvitation(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("invitationId", ParseUUIDPipe) invitationId: string,
+  ) {
+    return this.invitationService.revoke(user.id, id, invitationId);
+  }
+
+  @Post("me/:id/invitations/:invitationId/resend")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Issue a fresh token for a pending invitation",
+  })
+  @ApiResponse({ status: 400, description: "Invitation is not pending" })
+  @ApiResponse({ status: 404, description: "Invitation not found" })
+  async resendInvitation(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("invitationId", ParseUUIDPipe) invitationId: string,
+  ) {
+    return this.invitationService.resend(user.id, id, invitationId);
+  }
+
+  // ========== Admin API ==========
+
+  @Permissions("submission:manage")
+  @ActivityScope("slug", "slug")
+  @Get("activity/:slug")
+  @ApiOperation({ summary: "List all proposals for an activity" })
+  @ApiQuery({ name: "status", required: false, enum: SubmissionStatus })
+  @ApiQuery({ name: "decision", required: false, enum: SubmissionDecision })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  async findAllByActivity(
+    @Param("slug") slug: string,
+    @Query("status", new ParseEnumPipe(SubmissionStatus, { optional: true }))
+    status?: SubmissionStatus,
+    @Query(
+      "decision",
+      new ParseEnumPipe(SubmissionDecision, { optional: true }),
+    )
+    decision?: SubmissionDecision,
+    @Query("lang") lang?: string,
+  ) {
+    return this.submissionService.findAllByActivity(
+      slug,
+      status,
+      decision,
+      lang,
+    );
+  }
+
+  @Permissions("submission:manage")
+  @ActivityScope("slug", "slug")
+  @Put("activity/:slug/decisions")
+  @ApiOperation({
+    summary: "Accept, reject or waitlist several proposals at once",
+  })
+  @ApiResponse({
+    status: 400,
+    description: "A proposal is not submitted or is listed twice",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Activity or submission not found",
+  })
+  async decide(@Param("slug") slug: string, @Body() dto: BulkDecisionDto) {
+    return this.decisionService.decide(slug, dto);
+  }
+
+  @Permissions("submission:manage")
+  @ActivityScope("slug", "slug")
+  @Post("activity/:slug/decisions/publish")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Reveal decisions to speakers and start confirmation deadlines",
+  })
+  @ApiResponse({ status: 404, description: "Activity not found" })
+  @ApiResponse({ status: 409, description: "Decisions are already published" })
+  async publishDecisions(@Param("slug") slug: string) {
+    return this.decisionService.publish(slug);
+  }
+
+  @Permissions("submission:manage")
+  @ActivityScope("id", "submission")
+  @Get(":id")
+  @ApiOperation({ summary: "Get proposal by ID (for admin)" })
+  @ApiQuery({
+    name: "lang",
+    required: false,
+    description: "Optional language code to filter contents",
+  })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async findOne(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query("lang") lang?: string,
+  ) {
+    return this.submissionService.findOneById(id, lang);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from "@nestjs/common";
+import { SubmissionController } from "./submission.controller";
+import { SubmissionService } from "./submission.service";
+import { InvitationController } from "./invitation.controller";
+import { InvitationService } from "./invitation.service";
+import { DecisionService } from "./decision.service";
+import { QuestionModule } from "../question/question.module";
+import { NotificationModule } from "../notification/notification.module";
+
+@Module({
+  imports: [QuestionModule, NotificationModule],
+  controllers: [SubmissionController, InvitationController],
+  providers: [SubmissionService, InvitationService, DecisionService],
+  exports: [InvitationService],
+})
+export class SubmissionModule {}
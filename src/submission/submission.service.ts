@@ -0,0 +1,460 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { CreateSubmissionDto, UpdateSubmissionDto } from "./dto/submission.dto";
+import { withId } from "src/common/utils/db.util";
+import {
+  pickContent,
+  validateContentLanguages,
+} from "src/common/utils/language.util";
+import { buildClientUrl } from "src/common/utils/url.util";
+import { NotificationService } from "../notification/notification.service";
+import {
+  NormalizedAnswer,
+  QuestionService,
+} from "../question/question.service";
+import { DecisionService } from "./decision.service";
+import { holdsSlot, redactDecision } from "./utils/decision.util";
+import {
+  ActivityStatus,
+  ActivityTimeline,
+  computeActivityStatus,
+} from "../activity/utils/activity-status.util";
+import {
+  activityStateSelect,
+  assertActivityEditable,
+} from "../activity/utils/activity-state.util";
+import {
+  Prisma,
+  SubmissionDecision,
+  SubmissionStatus,
+} from "../../generated/prisma/client";
+
+const speakerProfileSelect = {
+  id: true,
+  email: true,
+  displayName: true,
+  organization: true,
+  jobTitle: true,
+  bio: true,
+  avatarUrl: true,
+  memberLinks: { select: { type: true, url: true } },
+};
+
+// Activity fields the CFP status is computed from
+const cfpTimelineSelect = {
+  startAt: true,
+  endAt: true,
+  cfpOpenAt: true,
+  cfpCloseAt: true,
+  cfpGraceMinutes: true,
+} as const;
+
+// Speaker-facing writes never echo the committee's decision
+const decisionOmit = {
+  decision: true,
+  decidedAt: true,
+  waitlistRank: true,
+  confirmationStatus: true,
+  confirmationDeadline: true,
+  confirmationRespondedAt: true,
+} as const;
+
+@Injectable()
+export class SubmissionService {
+  constructor(
+    private prisma: PrismaService,
+    private questionService: QuestionService,
+    private decisionService: DecisionService,
+    private notificationService: NotificationService,
+  ) {}
+
+  // ========== Member ==========
+
+  async create(memberId: string, dto: CreateSubmissionDto) {
+    const activity = await this.findActivityBySlug(dto.activitySlug);
+
+    this.assertCfpOpen(activity);
+
+    // Validate content languages
+    validateContentLanguages(dto.contents, activity.supportedLanguages);
+
+    // Drafts may leave required questions unanswered until submission
+    const answers = await this.questionService.validateAnswers(
+      activity.id,
+      dto.answers ?? [],
+      false,
+    );
+
+    return this.prisma.submission.create({
+      data: withId({
+        activityId: activity.id,
+        memberId,
+        contents: {
+          create: dto.contents.map((content) =>
+            withId({
+              lang: content.lang,
+              title: content.title,
+              abstract: content.abstract,
+            }),
+          ),
+        },
+        answers: {
+          create: answers
+            .filter((answer) => answer.value !== null)
+            .map((answer) =>
+              withId({
+                questionId: answer.questionId,
+                value: answer.value as Prisma.InputJsonValue,
+              }),
+            ),
+        },
+      }),
+      include: { contents: true, answers: this.answersSelect() },
+    });
+  }
+
+  async findMine(memberId: string, activitySlug?: string, lang?: string) {
+    const submissions = await this.prisma.submission.findMany({
+      where: {
+        OR: [{ memberId }, { speakers: { some: { memberId } } }],
+        ...(activitySlug && {
+          activity: { slug: activitySlug.toLowerCase() },
+        }),
+      },
+      include: {
+        activity: {
+          select: { slug: true, name: true, decisionsPublishedAt: true },
+        },
+        contents: this.contentsSelect(lang),
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return submissions.map((submission) =>
+      redactDecision(submission, !!submission.activity.decisionsPublishedAt),
+    );
+  }
+
+  async findMineById(memberId: string, id: string, lang?: string) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id },
+      include: {
+        activity: {
+          select: { slug: true, name: true, decisionsPublishedAt: true },
+        },
+        contents: this.contentsSelect(lang),
+        speakers: { select: { member: { select: speakerProfileSelect } } },
+        answers: this.answersSelect(),
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+
+    // Co-speakers may read the proposal but only the owner may change it
+    const isSpeaker = submission.speakers.some(
+      (speaker) => speaker.member.id === memberId,
+    );
+    if (submission.memberId !== memberId && !isSpeaker) {
+      throw new ForbiddenException("You do not own this submission");
+    }
+    return redactDecision(
+      submission,
+      !!submission.activity.decisionsPublishedAt,
+    );
+  }
+
+  async update(memberId: string, id: string, dto: UpdateSubmissionDto) {
+    const submission = await this.findOwnedWithActivity(memberId, id);
+
+    if (submission.status === SubmissionStatus.WITHDRAWN) {
+      throw new BadRequestException("Withdrawn submissions cannot be edited");
+    }
+
+    this.assertCfpOpen(submission.activity);
+
+    // Validate content languages if contents are being updated
+    if (dto.contents) {
+      validateContentLanguages(
+        dto.contents,
+        submission.activity.supportedLanguages,
+      );
+    }
+
+    // Submitted proposals must keep every required question answered
+    let answers: NormalizedAnswer[] = [];
+    if (dto.answers) {
+      const changedIds = new Set(dto.answers.map((a) => a.questionId));
+      const stored = await this.prisma.submissionAnswer.findMany({
+        where: { submissionId: id },
+        select: { questionId: true, value: true },
+      });
+
+      answers = await this.questionService.validateAnswers(
+        submission.activityId,
+        [
+          ...stored.filter((a) => !changedIds.has(a.questionId)),
+          ...dto.answers,
+        ],
+        submission.status === SubmissionStatus.SUBMITTED,
+      );
+      answers = answers.filter((a) => changedIds.has(a.questionId));
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.contents) {
+        await Promise.all(
+          dto.contents.map((content) =>
+            tx.submissionContent.upsert({
+              where: {
+                submissionId_lang: {
+                  submissionId: id,
+                  lang: content.lang,
+                },
+              },
+              update: {
+                title: content.title,
+                abstract: content.abstract,
+              },
+              create: withId({
+                submissionId: id,
+                lang: content.lang,
+                title: content.title,
+                abstract: content.abstract,
+              }),
+            }),
+          ),
+        );
+      }
+
+      for (const answer of answers) {
+        if (answer.value === null) {
+          await tx.submissionAnswer.deleteMany({
+            where: { submissionId: id, questionId: answer.questionId },
+          });
+          continue;
+        }
+
+        await tx.submissionAnswer.upsert({
+          where: {
+            submissionId_questionId: {
+              submissionId: id,
+              questionId: answer.questionId,
+            },
+          },
+          update: { value: answer.value },
+          create: withId({
+            submissionId: id,
+            questionId: answer.questionId,
+            value: answer.value,
+          }),
+        });
+      }
+
+      // Touch updatedAt even when only child rows changed
+      return tx.submission.update({
+        where: { id },
+        data: { updatedAt: new Date() },
+        include: { contents: true, answers: this.answersSelect() },
+        omit: decisionOmit,
+      });
+    });
+  }
+
+  async submit(memberId: string, id: string) {
+    const submission = await this.findOwnedWithActivity(memberId, id);
+
+    if (submission.status !== SubmissionStatus.DRAFT) {
+      throw new BadRequestException("Only draft submissions can be submitted");
+    }
+
+    this.assertCfpOpen(submission.activity);
+
+    const stored = await this.prisma.submissionAnswer.findMany({
+      where: { submissionId: id },
+      select: { questionId: true, value: true },
+    });
+    await this.questionService.validateAnswers(
+      submission.activityId,
+      stored,
+      true,
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const submitted = await tx.submission.update({
+        where: { id },
+        data: { status: SubmissionStatus.SUBMITTED, submittedAt: new Date() },
+        include: {
+          member: {
+            select: { email: true, displayName: true, preferredLanguage: true },
+          },
+          activity: { select: { name: true, supportedLanguages: true } },
+          contents: { select: { lang: true, title: true } },
+        },
+        omit: decisionOmit,
+      });
+
+      const { member, activity, contents, ...result } = submitted;
+      const lang = this.notificationService.resolveLanguage(
+        member.preferredLanguage,
+        activity.supportedLanguages,
+      );
+      await this.notificationService.enqueue(tx, {
+        to: member.email,
+        template: "submissionReceived",
+        lang,
+        data: {
+          displayName: member.displayName ?? member.email,
+          activityName: activity.name,
+          title: pickContent(contents, lang)?.title ?? "",
+          submissionUrl: buildClientUrl(`/submissions/${id}`),
+        },
+      });
+
+      return result;
+    });
+  }
+
+  async withdraw(memberId: string, id: string) {
+    const submission = await this.findOwnedWithActivity(memberId, id);
+
+    if (submission.status === SubmissionStatus.WITHDRAWN) {
+      throw new BadRequestException("Submission is already withdrawn");
+    }
+
+    // An accepted speaker pulling out frees a slot for the waitlist
+    const freesSlot = holdsSlot(submission);
+
+    return this.prisma.$transaction(async (tx) => {
+      const withdrawn = await tx.submission.update({
+        where: { id },
+        data: { status: SubmissionStatus.WITHDRAWN, withdrawnAt: new Date() },
+        omit: decisionOmit,
+      });
+
+      if (freesSlot) {
+        await this.decisionService.promoteFromWaitlist(
+          submission.activityId,
+          tx,
+        );
+      }
+
+      return withdrawn;
+    });
+  }
+
+  // ========== Admin ==========
+
+  async findAllByActivity(
+    activitySlug: string,
+    status?: SubmissionStatus,
+    decision?: SubmissionDecision,
+    lang?: string,
+  ) {
+    const activity = await this.findManagedActivityBySlug(activitySlug);
+
+    return this.prisma.submission.findMany({
+      where: {
+        activityId: activity.id,
+        ...(status && { status }),
+        ...(decision && { decision }),
+      },
+      include: {
+        member: { select: { id: true, email: true, displayName: true } },
+        contents: this.contentsSelect(lang),
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async findOneById(id: string, lang?: string) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id },
+      include: {
+        activity: { select: { id: true, slug: true, name: true } },
+        member: { select: speakerProfileSelect },
+        contents: this.contentsSelect(lang),
+        speakers: { select: { member: { select: speakerProfileSelect } } },
+        answers: this.answersSelect(),
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+    return submission;
+  }
+
+  // ========== Private Methods ==========
+
+  private contentsSelect(lang?: string) {
+    return {
+      select: { lang: true, title: true, abstract: true },
+      where: lang ? { lang: lang.toLowerCase() } : undefined,
+    };
+  }
+
+  private answersSelect() {
+    return { select: { questionId: true, value: true } };
+  }
+
+  private async findActivityBySlug(slug: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: {
+        slug: slug.toLowerCase(),
+        publishedAt: { not: null },
+        archivedAt: null,
+        deletedAt: null,
+      },
+      select: { id: true, supportedLanguages: true, ...cfpTimelineSelect },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    return activity;
+  }
+
+  /**
+   * Organizers still see proposals of unpublished and archived activities
+   */
+  private async findManagedActivityBySlug(slug: string) {
+    const activity = await this.prisma.activity.findUnique({
+      where: { slug: slug.toLowerCase(), deletedAt: null },
+      select: { id: true },
+    });
+    if (!activity) throw new NotFoundException("Activity not found");
+    return activity;
+  }
+
+  private async findOwnedWithActivity(memberId: string, id: string) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id },
+      include: {
+        activity: {
+          select: {
+            supportedLanguages: true,
+            ...cfpTimelineSelect,
+            ...activityStateSelect,
+          },
+        },
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+    if (submission.memberId !== memberId) {
+      throw new ForbiddenException("You do not own this submission");
+    }
+    assertActivityEditable(submission.activity);
+    return submission;
+  }
+
+  /**
+   * Reject writes unless the activity's CFP is open
+   */
+  private assertCfpOpen(activity: ActivityTimeline): void {
+    const status = computeActivityStatus(activity);
+    if (status === ActivityStatus.UPCOMING) {
+      throw new BadRequestException("Call for proposals is not open yet");
+    }
+    if (status !== ActivityStatus.CFP_OPEN) {
+      throw new BadRequestException("Call for proposals is closed");
+    }
+  }
+}
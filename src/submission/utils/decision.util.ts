@@ -0,0 +1,43 @@
+import {
+  ConfirmationStatus,
+  SubmissionDecision,
+} from "../../../generated/prisma/client";
+
+// Decision fields that stay internal until the activity publishes decisions
+const DECISION_KEYS = [
+  "decision",
+  "decidedAt",
+  "confirmationStatus",
+  "confirmationDeadline",
+  "confirmationRespondedAt",
+] as const;
+
+/**
+ * Strip committee-only decision data from a speaker-facing submission.
+ * The waitlist rank is never shown to speakers.
+ */
+export const redactDecision = <T extends object>(
+  submission: T,
+  published: boolean,
+): T => {
+  const redacted = { ...submission } as Record<string, unknown>;
+  delete redacted.waitlistRank;
+  if (!published) {
+    for (const key of DECISION_KEYS) {
+      delete redacted[key];
+    }
+  }
+  return redacted as T;
+};
+
+/**
+ * Whether an accepted proposal occupies a slot: its speaker has not
+ * declined and the confirmation has not expired
+ */
+export const holdsSlot = (submission: {
+  decision: SubmissionDecision | null;
+  confirmationStatus: ConfirmationStatus | null;
+}): boolean =>
+  submission.decision === SubmissionDecision.ACCEPTED &&
+  (submission.confirmationStatus === ConfirmationStatus.PENDING ||
+    submission.confirmationStatus === ConfirmationStatus.CONFIRMED);
@@ -0,0 +1,42 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+import { StorageDriver } from "./storage-driver";
+
+/**
+ * Keeps files under a directory on the server's disk. Files are served
+ * through the API, so no direct URLs are signed.
+ */
+export class LocalDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(dir: string) {
+    this.root = resolve(dir);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.path(key);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return readFile(this.path(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  signedUrl(): null {
+    return null;
+  }
+
+  // Keys never come from clients, but a key must not escape the root either
+  private path(key: string): string {
+    const file = resolve(join(this.root, key));
+    if (!file.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
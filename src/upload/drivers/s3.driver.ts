@@ -0,0 +1,199 @@
+import { createHash, createHmac } from "crypto";
+import { contentDisposition } from "../utils/file-type.util";
+import { SignedUrlOptions, StorageDriver } from "./storage-driver";
+
+export interface S3DriverOptions {
+  // e.g. https://s3.ap-northeast-1.amazonaws.com, or http://localhost:9000 for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // address the bucket in the path instead of the host name, as MinIO expects
+  forcePathStyle: boolean;
+}
+
+const sha256 = (data: string | Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding as Signature V4 expects; encodeURIComponent leaves !'()* alone
+const encode = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+/**
+ * Any S3-compatible object store, talking the REST API directly with
+ * Signature V4 requests and presigned download URLs
+ */
+export class S3Driver implements StorageDriver {
+  constructor(private options: S3DriverOptions) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request("PUT", key, body, {
+      "content-type": contentType,
+    });
+    await this.assertOk(response, `store ${key}`);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request("GET", key);
+    await this.assertOk(response, `read ${key}`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 answers 204 for missing keys as well
+    const response = await this.request("DELETE", key);
+    await this.assertOk(response, `delete ${key}`);
+  }
+
+  signedUrl(key: string, options: SignedUrlOptions): string {
+    const { origin, host, path } = this.locate(key);
+    const { amzDate, scope } = this.timestamp();
+
+    const query: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${this.options.accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(options.expiresInSeconds),
+      "X-Amz-SignedHeaders": "host",
+      "response-content-disposition": contentDisposition(options.fileName),
+      "response-content-type": options.contentType,
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encode(name)}=${encode(query[name])}`)
+      .join("&");
+
+    const signature = this.sign(
+      "GET",
+      path,
+      canonicalQuery,
+      { host },
+      "UNSIGNED-PAYLOAD",
+      amzDate,
+      scope,
+    );
+    return `${origin}${path}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  // ========== Private Methods ==========
+
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<Response> {
+    const { origin, host, path } = this.locate(key);
+    const { amzDate, scope } = this.timestamp();
+    const payloadHash = sha256(body ?? "");
+
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...extraHeaders,
+    };
+    // fetch sets Host itself, but it is part of the signature
+    const signed = { ...headers, host };
+    const signature = this.sign(
+      method,
+      path,
+      "",
+      signed,
+      payloadHash,
+      amzDate,
+      scope,
+    );
+
+    return fetch(`${origin}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${Object.keys(signed).sort().join(";")}, ` +
+          `Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  private sign(
+    method: string,
+    path: string,
+    canonicalQuery: string,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string,
+    scope: string,
+  ): string {
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      canonicalQuery,
+      names.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+      names.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = hmac(
+      hmac(
+        hmac(
+          hmac(`AWS4${this.options.secretAccessKey}`, amzDate.slice(0, 8)),
+          this.options.region,
+        ),
+        "s3",
+      ),
+      "aws4_request",
+    );
+    return createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+  }
+
+  private locate(key: string) {
+    const endpoint = new URL(this.options.endpoint);
+    const encodedKey = key.split("/").map(encode).join("/");
+
+    if (this.options.forcePathStyle) {
+      return {
+        origin: endpoint.origin,
+        host: endpoint.host,
+        path: `/${this.options.bucket}/${encodedKey}`,
+      };
+    }
+    const host = `${this.options.bucket}.${endpoint.host}`;
+    return {
+      origin: `${endpoint.protocol}//${host}`,
+      host,
+      path: `/${encodedKey}`,
+    };
+  }
+
+  private timestamp() {
+    // e.g. 20261020T093000Z
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const scope = `${amzDate.slice(0, 8)}/${this.options.region}/s3/aws4_request`;
+    return { amzDate, scope };
+  }
+
+  private async assertOk(response: Response, action: string): Promise<void> {
+    if (response.ok) return;
+    const detail = (await response.text()).slice(0, 300);
+    throw new Error(
+      `Object storage could not ${action}: ${response.status} ${detail}`,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+export const STORAGE_DRIVER = Symbol("STORAGE_DRIVER");
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  contentType: string;
+  // suggested name for the downloaded file
+  fileName: string;
+}
+
+/**
+ * Where uploaded bytes are kept. Keys are opaque paths chosen by the
+ * upload service.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Missing keys are ignored
+  delete(key: string): Promise<void>;
+  /**
+   * A time-limited URL the file can be fetched from directly, or null when
+   * the driver cannot sign one and the API has to serve the file
+   */
+  signedUrl(key: string, options: SignedUrlOptions): string | null;
+}
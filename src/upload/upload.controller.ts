@@ -0,0 +1,168 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import type { Response } from "express";
+import { MAX_UPLOAD_BYTES, UploadService } from "./upload.service";
+import type { IncomingFile } from "./upload.service";
+import { contentDisposition } from "./utils/file-type.util";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+import { Public } from "src/auth/decorators/public.decorator";
+import { UploadKind } from "../../generated/prisma/client";
+
+const fileBody = {
+  schema: {
+    type: "object",
+    properties: { file: { type: "string", format: "binary" } },
+  },
+};
+
+const fileInterceptor = FileInterceptor("file", {
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+@ApiTags("Uploads")
+@Controller("uploads")
+export class UploadController {
+  constructor(private readonly uploadService: UploadService) {}
+
+  // ========== Avatar ==========
+
+  @Put("avatar")
+  @UseInterceptors(fileInterceptor)
+  @ApiConsumes("multipart/form-data")
+  @ApiBody(fileBody)
+  @ApiOperation({
+    summary: "Upload a custom avatar (JPEG, PNG or WebP, up to 2 MB)",
+  })
+  @ApiResponse({ status: 400, description: "Missing or unsupported file" })
+  @ApiResponse({ status: 413, description: "File too large" })
+  async setAvatar(
+    @CurrentUser() user: AuthUser,
+    @UploadedFile() file?: IncomingFile,
+  ) {
+    return this.uploadService.setAvatar(user.id, file);
+  }
+
+  @Delete("avatar")
+  @ApiOperation({
+    summary: "Remove the custom avatar and use the login provider's again",
+  })
+  @ApiResponse({ status: 404, description: "No custom avatar uploaded" })
+  async removeAvatar(@CurrentUser() user: AuthUser) {
+    return this.uploadService.removeAvatar(user.id);
+  }
+
+  // ========== Slides ==========
+
+  @Post("submissions/:submissionId/slides")
+  @UseInterceptors(fileInterceptor)
+  @ApiConsumes("multipart/form-data")
+  @ApiBody(fileBody)
+  @ApiOperation({
+    summary: "Attach a slide deck (PDF, up to 20 MB) to a proposal",
+    description: "Replaces the proposal's earlier slides",
+  })
+  @ApiResponse({ status: 400, description: "Missing or unsupported file" })
+  @ApiResponse({ status: 403, description: "Not a speaker of the proposal" })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  @ApiResponse({ status: 413, description: "File too large" })
+  async attachSlides(
+    @CurrentUser() user: AuthUser,
+    @Param("submissionId", ParseUUIDPipe) submissionId: string,
+    @UploadedFile() file?: IncomingFile,
+  ) {
+    return this.uploadService.attachSlides(user.id, submissionId, file);
+  }
+
+  @Get("submissions/:submissionId/slides")
+  @ApiOperation({ summary: "List the slides of a proposal" })
+  @ApiResponse({ status: 403, description: "No access to the proposal" })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async findSlides(
+    @CurrentUser() user: AuthUser,
+    @Param("submissionId", ParseUUIDPipe) submissionId: string,
+  ) {
+    return this.uploadService.findSlides(user, submissionId);
+  }
+
+  @Delete(":id")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete slides of a proposal you speak at" })
+  @ApiResponse({ status: 403, description: "Not a speaker of the proposal" })
+  @ApiResponse({ status: 404, description: "File not found" })
+  async removeSlides(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    await this.uploadService.removeSlides(user.id, id);
+  }
+
+  // ========== Serving ==========
+
+  @Get(":id/url")
+  @ApiOperation({ summary: "Get a short-lived download URL for a file" })
+  @ApiResponse({ status: 403, description: "No access to the file" })
+  @ApiResponse({ status: 404, description: "File not found" })
+  async createUrl(
+    @CurrentUser() user: AuthUser,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.uploadService.createUrl(user, id);
+  }
+
+  @Public()
+  @Get(":id/content")
+  @ApiOperation({
+    summary: "Download a file",
+    description:
+      "Avatars are public; other files need the signature from the URL endpoint",
+  })
+  @ApiResponse({ status: 403, description: "Invalid or expired signature" })
+  @ApiResponse({ status: 404, description: "File not found" })
+  async read(
+    @Res({ passthrough: true }) res: Response,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query("expires") expires?: string,
+    @Query("signature") signature?: string,
+  ) {
+    const { upload, body } = await this.uploadService.read(
+      id,
+      expires,
+      signature,
+    );
+
+    res.setHeader(
+      "Cache-Control",
+      upload.kind === UploadKind.AVATAR
+        ? "public, max-age=86400"
+        : "private, no-store",
+    );
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    return new StreamableFile(body, {
+      type: upload.contentType,
+      disposition: contentDisposition(upload.fileName),
+      length: body.length,
+    });
+  }
+}
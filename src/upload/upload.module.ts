@@ -0,0 +1,38 @@
+import { Module } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { UploadController } from "./upload.controller";
+import { UploadService } from "./upload.service";
+import { STORAGE_DRIVER, StorageDriver } from "./drivers/storage-driver";
+import { LocalDriver } from "./drivers/local.driver";
+import { S3Driver } from "./drivers/s3.driver";
+
+@Module({
+  controllers: [UploadController],
+  providers: [
+    UploadService,
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      // Local disk unless UPLOAD_DRIVER=s3; point S3_ENDPOINT at MinIO to
+      // try the S3 driver locally
+      useFactory: (config: ConfigService): StorageDriver => {
+        if (config.get<string>("UPLOAD_DRIVER") === "s3") {
+          return new S3Driver({
+            endpoint:
+              config.get<string>("S3_ENDPOINT") ||
+              `https://s3.${config.getOrThrow<string>("S3_REGION")}.amazonaws.com`,
+            region: config.getOrThrow<string>("S3_REGION"),
+            bucket: config.getOrThrow<string>("S3_BUCKET"),
+            accessKeyId: config.getOrThrow<string>("S3_ACCESS_KEY_ID"),
+            secretAccessKey: config.getOrThrow<string>("S3_SECRET_ACCESS_KEY"),
+            forcePathStyle:
+              config.get<string>("S3_FORCE_PATH_STYLE") === "true",
+          });
+        }
+        return new LocalDriver(config.get<string>("UPLOAD_DIR") || "uploads");
+      },
+    },
+  ],
+  exports: [UploadService],
+})
+export class UploadModule {}
@@ -0,0 +1,489 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHmac, timingSafeEqual } from "crypto";
+import { uuidv7 } from "uuidv7";
+import { PrismaService } from "../prisma/prisma.service";
+import { buildApiUrl } from "src/common/utils/url.util";
+import { AuditService } from "../audit/audit.service";
+import type { AuthUser } from "../auth/strategies/jwt.strategy";
+import {
+  SubmissionStatus,
+  Upload,
+  UploadKind,
+} from "../../generated/prisma/client";
+import { STORAGE_DRIVER } from "./drivers/storage-driver";
+import type { StorageDriver } from "./drivers/storage-driver";
+import { detectFileType } from "./utils/file-type.util";
+import { stripImageMetadata } from "./utils/image-metadata.util";
+
+// How long a download URL handed out for a private file works
+export const UPLOAD_URL_TTL_SECONDS = 15 * 60;
+
+const UPLOAD_RULES: Record<
+  UploadKind,
+  { maxBytes: number; contentTypes: string[] }
+> = {
+  AVATAR: {
+    maxBytes: 2 * 1024 * 1024,
+    contentTypes: ["image/jpeg", "image/png", "image/webp"],
+  },
+  SLIDES: {
+    maxBytes: 20 * 1024 * 1024,
+    contentTypes: ["application/pdf"],
+  },
+};
+
+// The largest file any kind accepts; the per-kind limit is checked later
+export const MAX_UPLOAD_BYTES = Math.max(
+  ...Object.values(UPLOAD_RULES).map((rule) => rule.maxBytes),
+);
+
+// The parts of a multer file this service uses
+export interface IncomingFile {
+  buffer: Buffer;
+  originalname: string;
+  size: number;
+}
+
+const uploadSelect = {
+  id: true,
+  kind: true,
+  contentType: true,
+  size: true,
+  fileName: true,
+  submissionId: true,
+  createdAt: true,
+};
+
+/**
+ * Validates, cleans and stores uploaded files, and decides who may read
+ * them. Avatars are public; everything else is served through short-lived
+ * signed URLs.
+ */
+@Injectable()
+export class UploadService {
+  private readonly logger = new Logger(UploadService.name);
+  private readonly signingSecret: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    @Inject(STORAGE_DRIVER) private storage: StorageDriver,
+    config: ConfigService,
+  ) {
+    this.signingSecret =
+      config.get<string>("UPLOAD_SIGNING_SECRET") ||
+      config.get<string>("JWT_SECRET") ||
+      "fallback-secret";
+  }
+
+  // ========== Avatar ==========
+
+  /**
+   * Replace the member's avatar with an uploaded image; it takes precedence
+   * over the one from their login provider
+   */
+  async setAvatar(memberId: string, file?: IncomingFile) {
+    const upload = await this.store(memberId, UploadKind.AVATAR, file);
+
+    const previous = await this.prisma.$transaction(async (tx) => {
+      const member = await tx.member.findUniqueOrThrow({
+        where: { id: memberId },
+        select: { avatarUpload: { select: { id: true, storageKey: true } } },
+      });
+      await tx.member.update({
+        where: { id: memberId },
+        data: {
+          avatarUploadId: upload.id,
+          avatarUrl: buildApiUrl(`/uploads/${upload.id}/content`),
+        },
+      });
+      if (member.avatarUpload) {
+        await tx.upload.delete({ where: { id: member.avatarUpload.id } });
+      }
+
+      await this.auditService.record(
+        {
+          action: "member.avatar.set",
+          entityType: "member",
+          entityId: memberId,
+          metadata: { uploadId: upload.id },
+        },
+        tx,
+      );
+      return member.avatarUpload;
+    });
+
+    if (previous) await this.discard(previous.storageKey);
+    return { avatarUrl: buildApiUrl(`/uploads/${upload.id}/content`) };
+  }
+
+  /**
+   * Remove the custom avatar and fall back to the provider's
+   */
+  async removeAvatar(memberId: string) {
+    const member = await this.prisma.member.findUniqueOrThrow({
+      where: { id: memberId },
+      select: {
+        providerAvatarUrl: true,
+        avatarUpload: { select: { id: true, storageKey: true } },
+      },
+    });
+    if (!member.avatarUpload) {
+      throw new NotFoundException("No custom avatar has been uploaded");
+    }
+    const avatar = member.avatarUpload;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.member.update({
+        where: { id: memberId },
+        data: { avatarUploadId: null, avatarUrl: member.providerAvatarUrl },
+      });
+      await tx.upload.delete({ where: { id: avatar.id } });
+
+      await this.auditService.record(
+        {
+          action: "member.avatar.remove",
+          entityType: "member",
+          entityId: memberId,
+        },
+        tx,
+      );
+    });
+
+    await this.discard(avatar.storageKey);
+    return { avatarUrl: member.providerAvatarUrl };
+  }
+
+  // ========== Slides ==========
+
+  /**
+   * Attach a slide deck to a proposal, replacing any earlier one. Any of
+   * its speakers may upload it.
+   */
+  async attachSlides(
+    memberId: string,
+    submissionId: string,
+    file?: IncomingFile,
+  ) {
+    const submission = await this.findSubmission(submissionId);
+    if (!submission.speakerIds.includes(memberId)) {
+      throw new ForbiddenException("You are not a speaker of this proposal");
+    }
+
+    const upload = await this.store(
+      memberId,
+      UploadKind.SLIDES,
+      file,
+      submissionId,
+    );
+
+    // Only earlier decks are replaced, so of two parallel uploads the later
+    // one is kept
+    const replaced = await this.prisma.$transaction(async (tx) => {
+      const earlier = await tx.upload.findMany({
+        where: {
+          submissionId,
+          kind: UploadKind.SLIDES,
+          OR: [
+            { createdAt: { lt: upload.createdAt } },
+            { createdAt: upload.createdAt, id: { lt: upload.id } },
+          ],
+        },
+        select: { id: true, storageKey: true },
+      });
+      await tx.upload.deleteMany({
+        where: { id: { in: earlier.map((r) => r.id) } },
+      });
+
+      await this.auditService.record(
+        {
+          action: "submission.slides.upload",
+          entityType: "submission",
+          entityId: submissionId,
+          metadata: { uploadId: upload.id },
+        },
+        tx,
+      );
+      return earlier;
+    });
+
+    await this.discardFiles(replaced.map((r) => r.storageKey));
+    return upload;
+  }
+
+  async findSlides(user: AuthUser, submissionId: string) {
+    await this.assertCanReadSlides(user, submissionId);
+
+    return this.prisma.upload.findMany({
+      where: { submissionId, kind: UploadKind.SLIDES },
+      select: uploadSelect,
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Delete an uploaded slide deck; speakers only
+   */
+  async removeSlides(memberId: string, id: string) {
+    const upload = await this.findUpload(id);
+    if (upload.kind !== UploadKind.SLIDES || !upload.submissionId) {
+      throw new BadRequestException("Only slides can be deleted here");
+    }
+    const submission = await this.findSubmission(upload.submissionId);
+    if (!submission.speakerIds.includes(memberId)) {
+      throw new ForbiddenException("You are not a speaker of this proposal");
+    }
+
+    await this.prisma.upload.delete({ where: { id } });
+    await this.discard(upload.storageKey);
+
+    await this.auditService.record({
+      action: "submission.slides.delete",
+      entityType: "submission",
+      entityId: upload.submissionId,
+      metadata: { uploadId: id },
+    });
+  }
+
+  // ========== Serving ==========
+
+  /**
+   * A time-limited download URL: a presigned storage URL when the driver
+   * supports one, else a signed link to the API
+   */
+  async createUrl(user: AuthUser, id: string) {
+    const upload = await this.findUpload(id);
+    await this.assertCanRead(user, upload);
+
+    const expiresAt = new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000);
+    const url =
+      this.storage.signedUrl(upload.storageKey, {
+        expiresInSeconds: UPLOAD_URL_TTL_SECONDS,
+        contentType: upload.contentType,
+        fileName: upload.fileName,
+      }) ?? this.signApiUrl(upload.id, expiresAt);
+
+    return { url, expiresAt };
+  }
+
+  /**
+   * File content for the API download route. Avatars need no signature.
+   */
+  async read(id: string, expires?: string, signature?: string) {
+    const upload = await this.findUpload(id);
+
+    if (upload.kind !== UploadKind.AVATAR) {
+      const expiresAt = Number(expires);
+      const valid =
+        signature !== undefined &&
+        Number.isInteger(expiresAt) &&
+        expiresAt * 1000 > Date.now() &&
+        this.safeEqual(signature, this.sign(upload.id, expiresAt));
+      if (!valid) {
+        throw new ForbiddenException("This link is invalid or has expired");
+      }
+    }
+
+    return {
+      upload,
+      body: await this.storage.get(upload.storageKey),
+    };
+  }
+
+  // ========== Cleanup ==========
+
+  /**
+   * Delete the stored files of uploads whose rows were removed by a cascade
+   */
+  async discardFiles(storageKeys: string[]) {
+    await Promise.all(storageKeys.map((key) => this.discard(key)));
+  }
+
+  // ========== Private Methods ==========
+
+  /**
+   * Check a file against the rules of its kind, strip metadata and keep it
+   */
+  private async store(
+    ownerId: string,
+    kind: UploadKind,
+    file?: IncomingFile,
+    submissionId?: string,
+  ) {
+    if (!file) throw new BadRequestException("A file is required");
+
+    const rule = UPLOAD_RULES[kind];
+    if (file.size > rule.maxBytes) {
+      throw new PayloadTooLargeException(
+        `The file must not be larger than ${rule.maxBytes / 1024 / 1024} MB`,
+      );
+    }
+
+    const type = detectFileType(file.buffer);
+    if (!type || !rule.contentTypes.includes(type.contentType)) {
+      throw new BadRequestException(
+        `Unsupported file type; accepted: ${rule.contentTypes.join(", ")}`,
+      );
+    }
+
+    const body = stripImageMetadata(file.buffer, type.contentType);
+    const id = uuidv7();
+    const storageKey = `${kind.toLowerCase()}/${id}.${type.extension}`;
+    await this.storage.put(storageKey, body, type.contentType);
+
+    try {
+      return await this.prisma.upload.create({
+        data: {
+          id,
+          ownerId,
+          kind,
+          storageKey,
+          contentType: type.contentType,
+          size: body.length,
+          fileName:
+            file.originalname.slice(0, 255) || `upload.${type.extension}`,
+          submissionId,
+        },
+        select: uploadSelect,
+      });
+    } catch (error) {
+      await this.discard(storageKey);
+      throw error;
+    }
+  }
+
+  private async findUpload(id: string): Promise<Upload> {
+    const upload = await this.prisma.upload.findUnique({ where: { id } });
+    if (!upload) throw new NotFoundException("File not found");
+    return upload;
+  }
+
+  private async findSubmission(id: string) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id },
+      select: { memberId: true, speakers: { select: { memberId: true } } },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+
+    return {
+      speakerIds: [
+        submission.memberId,
+        ...submission.speakers.map((s) => s.memberId),
+      ],
+    };
+  }
+
+  private async assertCanRead(user: AuthUser, upload: Upload) {
+    if (upload.kind === UploadKind.AVATAR || upload.ownerId === user.id) {
+      return;
+    }
+    if (upload.submissionId) {
+      await this.assertCanReadSlides(user, upload.submissionId);
+      return;
+    }
+    throw new ForbiddenException("You cannot access this file");
+  }
+
+  /**
+   * Speakers and organizers may read a proposal's slides. Reviewers follow
+   * the review rules: only proposals they may review, and none under blind
+   * review, as slides usually name their speaker.
+   */
+  private async assertCanReadSlides(user: AuthUser, submissionId: string) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: {
+        memberId: true,
+        activityId: true,
+        status: true,
+        activity: { select: { openReview: true, blindReview: true } },
+        speakers: { where: { memberId: user.id }, select: { memberId: true } },
+        assignments: {
+          where: { reviewerId: user.id },
+          select: { reviewerId: true },
+        },
+        conflicts: {
+          where: { reviewerId: user.id },
+          select: { reviewerId: true },
+        },
+      },
+    });
+    if (!submission) throw new NotFoundException("Submission not found");
+    if (submission.memberId === user.id || submission.speakers.length > 0) {
+      return;
+    }
+
+    const permissions = await this.findPermissions(user, submission.activityId);
+    if (permissions.includes("submission:manage")) return;
+
+    const reviewable =
+      permissions.includes("review:submit") &&
+      submission.status === SubmissionStatus.SUBMITTED &&
+      submission.conflicts.length === 0 &&
+      (submission.assignments.length > 0 || submission.activity.openReview);
+    if (!reviewable) {
+      throw new ForbiddenException("You cannot access this file");
+    }
+    if (submission.activity.blindReview) {
+      throw new ForbiddenException("Slides are hidden during blind review");
+    }
+  }
+
+  /**
+   * The member's global permissions plus those of roles scoped to the activity
+   */
+  private async findPermissions(
+    user: AuthUser,
+    activityId: string,
+  ): Promise<string[]> {
+    const rolePermissions = await this.prisma.rolePermission.findMany({
+      where: {
+        role: { members: { some: { memberId: user.id, activityId } } },
+      },
+      select: { permission: { select: { code: true } } },
+    });
+    return [
+      ...user.permissions,
+      ...rolePermissions.map((rp) => rp.permission.code),
+    ];
+  }
+
+  private signApiUrl(id: string, expiresAt: Date): string {
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    const signature = this.sign(id, expires);
+    return buildApiUrl(
+      `/uploads/${id}/content?expires=${expires}&signature=${signature}`,
+    );
+  }
+
+  private sign(id: string, expires: number): string {
+    return createHmac("sha256", this.signingSecret)
+      .update(`${id}.${expires}`)
+      .digest("hex");
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  // A file whose row is gone is only wasted space; never fail the request
+  private async discard(storageKey: string) {
+    try {
+      await this.storage.delete(storageKey);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      this.logger.warn(`Stored file ${storageKey} not deleted: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { contentDisposition, detectFileType } from "./file-type.util";
+
+const bytes = (...values: number[]) => Buffer.from(values);
+
+describe("detectFileType", () => {
+  it("should recognise JPEG", () => {
+    expect(detectFileType(bytes(0xff, 0xd8, 0xff, 0xe0))).toEqual({
+      contentType: "image/jpeg",
+      extension: "jpg",
+    });
+  });
+
+  it("should recognise PNG", () => {
+    expect(
+      detectFileType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)),
+    ).toEqual({ contentType: "image/png", extension: "png" });
+  });
+
+  it("should recognise WebP but not other RIFF files", () => {
+    expect(detectFileType(Buffer.from("RIFF\0\0\0\0WEBPVP8 "))).toEqual({
+      contentType: "image/webp",
+      extension: "webp",
+    });
+    expect(detectFileType(Buffer.from("RIFF\0\0\0\0WAVEfmt "))).toBeNull();
+  });
+
+  it("should recognise PDF", () => {
+    expect(detectFileType(Buffer.from("%PDF-1.7"))).toEqual({
+      contentType: "application/pdf",
+      extension: "pdf",
+    });
+  });
+
+  it("should reject other formats such as SVG and GIF", () => {
+    expect(detectFileType(Buffer.from("<svg onload=alert(1)>"))).toBeNull();
+    expect(detectFileType(Buffer.from("GIF89a"))).toBeNull();
+  });
+
+  it("should reject files too short to carry a signature", () => {
+    expect(detectFileType(Buffer.alloc(0))).toBeNull();
+    expect(detectFileType(bytes(0xff, 0xd8))).toBeNull();
+    expect(detectFileType(Buffer.from("RIFF\0\0\0\0WEB"))).toBeNull();
+  });
+});
+
+describe("contentDisposition", () => {
+  it("should show plain names inline", () => {
+    expect(contentDisposition("slides.pdf")).toBe(
+      `inline; filename="slides.pdf"; filename*=UTF-8''slides.pdf`,
+    );
+  });
+
+  it("should escape quotes and non-ASCII characters", () => {
+    expect(contentDisposition('簡報 "final".pdf')).toBe(
+      `inline; filename="__ _final_.pdf"; filename*=UTF-8''%E7%B0%A1%E5%A0%B1%20%22final%22.pdf`,
+    );
+  });
+});
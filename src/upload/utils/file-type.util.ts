@@ -0,0 +1,42 @@
+export interface FileType {
+  contentType: string;
+  extension: string;
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, i) => buffer[offset + i] === byte);
+
+/**
+ * Identify a file by its leading bytes; the client's declared type is not
+ * trusted. Returns null for anything that is not an accepted format.
+ */
+export const detectFileType = (buffer: Buffer): FileType | null => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return { contentType: "image/jpeg", extension: "jpg" };
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { contentType: "image/png", extension: "png" };
+  }
+  // RIFF....WEBP
+  if (
+    startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return { contentType: "image/webp", extension: "webp" };
+  }
+  // %PDF-
+  if (startsWith(buffer, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    return { contentType: "application/pdf", extension: "pdf" };
+  }
+  return null;
+};
+
+/**
+ * Content-Disposition for showing a file in the browser under its
+ * original name
+ */
+export const contentDisposition = (fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
@@ -0,0 +1,184 @@
+import { BadRequestException } from "@nestjs/common";
+import { stripImageMetadata } from "./image-metadata.util";
+
+const ascii = (text: string) => Buffer.from(text, "latin1");
+
+// ========== JPEG ==========
+
+const jpegSegment = (marker: number, payload: string) => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, ascii(payload)]);
+};
+
+const SOI = Buffer.from([0xff, 0xd8]);
+const JFIF = jpegSegment(0xe0, "JFIF\0");
+const EXIF = jpegSegment(0xe1, "Exif\0\0GPS 25.03N 121.56E");
+const COMMENT = jpegSegment(0xfe, "taken by someone");
+const QUANT = jpegSegment(0xdb, "tables");
+const SCAN = Buffer.concat([jpegSegment(0xda, "scan"), ascii("pixels")]);
+const EOI = Buffer.from([0xff, 0xd9]);
+
+// ========== PNG ==========
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const pngChunk = (type: string, data: string) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  // The CRC is not checked, so any four bytes do
+  return Buffer.concat([length, ascii(type), ascii(data), Buffer.alloc(4)]);
+};
+
+// ========== WebP ==========
+
+const webpChunk = (type: string, data: Buffer) => {
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(data.length);
+  const padding = Buffer.alloc(data.length % 2);
+  return Buffer.concat([ascii(type), size, data, padding]);
+};
+
+const webp = (...chunks: Buffer[]) => {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.concat([ascii("RIFF"), Buffer.alloc(4), ascii("WEBP")]);
+  header.writeUInt32LE(body.length + 4, 4);
+  return Buffer.concat([header, body]);
+};
+
+describe("stripImageMetadata", () => {
+  describe("JPEG", () => {
+    it("should drop EXIF and comments but keep the image", () => {
+      const input = Buffer.concat([SOI, JFIF, EXIF, COMMENT, QUANT, SCAN, EOI]);
+
+      expect(stripImageMetadata(input, "image/jpeg")).toEqual(
+        Buffer.concat([SOI, JFIF, QUANT, SCAN, EOI]),
+      );
+    });
+
+    it("should skip fill bytes between segments", () => {
+      const input = Buffer.concat([SOI, Buffer.from([0xff]), EXIF, SCAN]);
+
+      expect(stripImageMetadata(input, "image/jpeg")).toEqual(
+        Buffer.concat([SOI, SCAN]),
+      );
+    });
+
+    it("should reject a segment running past the end", () => {
+      const input = Buffer.concat([SOI, EXIF.subarray(0, EXIF.length - 3)]);
+
+      expect(() => stripImageMetadata(input, "image/jpeg")).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it("should reject a length cut off by the end of the file", () => {
+      const input = Buffer.concat([SOI, Buffer.from([0xff, 0xe1, 0x00])]);
+
+      expect(() => stripImageMetadata(input, "image/jpeg")).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it("should reject bytes that are not a marker", () => {
+      const input = Buffer.concat([SOI, ascii("garbage")]);
+
+      expect(() => stripImageMetadata(input, "image/jpeg")).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe("PNG", () => {
+    const IHDR = pngChunk("IHDR", "header-bytes!");
+    const IDAT = pngChunk("IDAT", "pixels");
+    const IEND = pngChunk("IEND", "");
+
+    it("should drop text, EXIF and time chunks", () => {
+      const input = Buffer.concat([
+        PNG_SIGNATURE,
+        IHDR,
+        pngChunk("tEXt", "Author\0someone"),
+        pngChunk("eXIf", "GPS"),
+        pngChunk("tIME", "2026"),
+        IDAT,
+        IEND,
+      ]);
+
+      expect(stripImageMetadata(input, "image/png")).toEqual(
+        Buffer.concat([PNG_SIGNATURE, IHDR, IDAT, IEND]),
+      );
+    });
+
+    it("should ignore anything after the end chunk", () => {
+      const input = Buffer.concat([PNG_SIGNATURE, IHDR, IEND, ascii("trail")]);
+
+      expect(stripImageMetadata(input, "image/png")).toEqual(
+        Buffer.concat([PNG_SIGNATURE, IHDR, IEND]),
+      );
+    });
+
+    it("should reject a truncated chunk", () => {
+      const input = Buffer.concat([PNG_SIGNATURE, IHDR.subarray(0, 10)]);
+
+      expect(() => stripImageMetadata(input, "image/png")).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it("should reject a chunk longer than the file", () => {
+      const chunk = Buffer.from(IDAT);
+      chunk.writeUInt32BE(0xffff, 0);
+      const input = Buffer.concat([PNG_SIGNATURE, IHDR, chunk]);
+
+      expect(() => stripImageMetadata(input, "image/png")).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe("WebP", () => {
+    const vp8x = (flags: number) =>
+      webpChunk("VP8X", Buffer.from([flags, 0, 0, 0, 0, 0, 0, 0, 0, 0]));
+    const image = webpChunk("VP8 ", ascii("pixels"));
+
+    it("should drop EXIF and XMP and clear their flags", () => {
+      const input = webp(
+        vp8x(0x0c),
+        image,
+        webpChunk("EXIF", ascii("GPS")),
+        webpChunk("XMP ", ascii("<xmp/>")),
+      );
+
+      const output = stripImageMetadata(input, "image/webp");
+
+      expect(output).toEqual(webp(vp8x(0x00), image));
+      expect(output.readUInt32LE(4)).toBe(output.length - 8);
+    });
+
+    it("should keep the padding of odd-sized chunks", () => {
+      const odd = webpChunk("ALPH", ascii("abc"));
+      const input = webp(vp8x(0x10), odd, webpChunk("EXIF", ascii("GPS")));
+
+      expect(stripImageMetadata(input, "image/webp")).toEqual(
+        webp(vp8x(0x10), odd),
+      );
+    });
+
+    it("should reject a truncated chunk", () => {
+      const input = webp(image);
+
+      expect(() =>
+        stripImageMetadata(input.subarray(0, input.length - 2), "image/webp"),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  it("should return other content types unchanged", () => {
+    const pdf = ascii("%PDF-1.7 /Author (someone)");
+
+    expect(stripImageMetadata(pdf, "application/pdf")).toBe(pdf);
+  });
+});
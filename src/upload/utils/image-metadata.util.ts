@@ -0,0 +1,134 @@
+import { BadRequestException } from "@nestjs/common";
+
+const malformed = () => new BadRequestException("The image file is damaged");
+
+/**
+ * JPEG: drop EXIF/XMP (APP1), IPTC (APP13), other application segments
+ * and comments. JFIF (APP0), the ICC profile (APP2) and Adobe colour data
+ * (APP14) are kept as they affect how the image looks.
+ */
+const stripJpeg = (input: Buffer): Buffer => {
+  const kept: Buffer[] = [input.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset < input.length) {
+    if (input[offset] !== 0xff) throw malformed();
+    const marker = input[offset + 1];
+
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start of scan: the entropy-coded data runs to the end of the image
+    if (marker === 0xda) {
+      kept.push(input.subarray(offset));
+      break;
+    }
+    // Markers without a length
+    if (
+      marker === 0xd8 ||
+      marker === 0xd9 ||
+      (marker >= 0xd0 && marker <= 0xd7)
+    ) {
+      kept.push(input.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    if (offset + 4 > input.length) throw malformed();
+    const end = offset + 2 + input.readUInt16BE(offset + 2);
+    if (end > input.length) throw malformed();
+
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    const keep = isApp
+      ? marker === 0xe0 || marker === 0xe2 || marker === 0xee
+      : marker !== 0xfe;
+    if (keep) kept.push(input.subarray(offset, end));
+    offset = end;
+  }
+
+  return Buffer.concat(kept);
+};
+
+const PNG_METADATA_CHUNKS = ["tEXt", "iTXt", "zTXt", "eXIf", "tIME"];
+
+/**
+ * PNG: drop text, EXIF and timestamp chunks
+ */
+const stripPng = (input: Buffer): Buffer => {
+  const kept: Buffer[] = [input.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset < input.length) {
+    if (offset + 12 > input.length) throw malformed();
+    const length = input.readUInt32BE(offset);
+    const type = input.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > input.length) throw malformed();
+
+    if (!PNG_METADATA_CHUNKS.includes(type)) {
+      kept.push(input.subarray(offset, end));
+    }
+    offset = end;
+    if (type === "IEND") break;
+  }
+
+  return Buffer.concat(kept);
+};
+
+// VP8X header flags announcing EXIF and XMP chunks
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+/**
+ * WebP: drop the EXIF and XMP chunks and clear their VP8X flags
+ */
+const stripWebp = (input: Buffer): Buffer => {
+  const kept: Buffer[] = [];
+  let offset = 12;
+
+  while (offset < input.length) {
+    if (offset + 8 > input.length) throw malformed();
+    const type = input.toString("latin1", offset, offset + 4);
+    const size = input.readUInt32LE(offset + 4);
+    // Chunks are padded to an even size
+    const end = offset + 8 + size + (size % 2);
+    if (end > input.length) throw malformed();
+
+    if (type === "VP8X") {
+      const chunk = Buffer.from(input.subarray(offset, end));
+      chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      kept.push(chunk);
+    } else if (type !== "EXIF" && type !== "XMP ") {
+      kept.push(input.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const body = Buffer.concat(kept);
+  const header = Buffer.from(input.subarray(0, 12));
+  // The RIFF size counts everything after the size field
+  header.writeUInt32LE(body.length + 4, 4);
+  return Buffer.concat([header, body]);
+};
+
+/**
+ * Remove metadata such as camera details and GPS location from an image.
+ * Other content types are returned unchanged.
+ */
+export const stripImageMetadata = (
+  input: Buffer,
+  contentType: string,
+): Buffer => {
+  switch (contentType) {
+    case "image/jpeg":
+      return stripJpeg(input);
+    case "image/png":
+      return stripPng(input);
+    case "image/webp":
+      return stripWebp(input);
+    default:
+      return input;
+  }
+};